@@ -0,0 +1,80 @@
+"use client";
+
+import { useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import { dateFromJulianDate, julianDate } from '@/lib/ephemeris';
+import { DEG_TO_RAD, RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { formatEquationOfTime, solarCoordinates } from '@/lib/solar-time';
+
+interface AnalemmaChartProps {
+  year: number;
+  obliquity: number; // degrees
+  equationOfTime: number; // minutes, for the current day
+  declination: number; // degrees, for the current day
+}
+
+interface AnalemmaPoint {
+  julianDate: number;
+  equationOfTime: number; // minutes
+  declination: number; // degrees
+}
+
+const chartConfig = {
+  declination: { label: 'Declination', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+export function AnalemmaChart({ year, obliquity, equationOfTime, declination }: AnalemmaChartProps) {
+  // The Sun's place at noon UTC every day of the year, closed into a loop.
+  const data = useMemo(() => {
+    const start = julianDate(new Date(Date.UTC(year, 0, 1, 12)));
+    const days = Math.round(julianDate(new Date(Date.UTC(year + 1, 0, 1, 12))) - start);
+    const points: AnalemmaPoint[] = Array.from({ length: days + 1 }, (_, day) => {
+      const sun = solarCoordinates(start + day, obliquity * DEG_TO_RAD);
+      return { julianDate: start + day, equationOfTime: sun.equationOfTime, declination: sun.declination * RAD_TO_DEG };
+    });
+    return points;
+  }, [year, obliquity]);
+  // The loop reaches the tropics, at ± the tilt.
+  const tropic = Math.round(obliquity * 10) / 10;
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-80 w-full">
+      <LineChart data={data} margin={{ top: 8, right: 16, bottom: 0, left: 0 }}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis
+          dataKey="equationOfTime"
+          type="number"
+          domain={[-18, 18]}
+          ticks={[-15, -10, -5, 0, 5, 10, 15]}
+          tickFormatter={(value: number) => `${value > 0 ? '+' : ''}${value} min`}
+        />
+        <YAxis
+          dataKey="declination"
+          type="number"
+          width={40}
+          domain={[-30, 30]}
+          ticks={[-tropic, -10, 0, 10, tropic]}
+          tickFormatter={(value: number) => `${value}°`}
+        />
+        <ChartTooltip
+          cursor={false}
+          content={({ active, payload }) => {
+            const point = active ? (payload?.[0]?.payload as AnalemmaPoint | undefined) : undefined;
+            if (!point) return null;
+            return (
+              <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl font-mono">
+                <p>{dateFromJulianDate(point.julianDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' })}</p>
+                <p>{formatEquationOfTime(point.equationOfTime)} · δ {point.declination.toFixed(1)}°</p>
+              </div>
+            );
+          }}
+        />
+        <ReferenceLine x={0} stroke="hsl(var(--foreground))" strokeOpacity={0.3} />
+        <ReferenceLine y={0} stroke="hsl(var(--foreground))" strokeOpacity={0.3} />
+        <Line dataKey="declination" type="linear" stroke="var(--color-declination)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        <ReferenceDot x={equationOfTime} y={declination} r={5} fill="hsl(var(--accent))" stroke="hsl(var(--background))" strokeWidth={1.5} />
+      </LineChart>
+    </ChartContainer>
+  );
+}
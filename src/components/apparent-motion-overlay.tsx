@@ -0,0 +1,126 @@
+import { useMemo } from 'react';
+import { relativePosition, type FrameOriginId, type RetrogradePeriod } from '@/lib/apparent-motion';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import { DEG_TO_RAD, type Vector2 } from '@/lib/orbital-mechanics';
+
+export interface ApparentTrace {
+  id: FrameOriginId;
+  name: string;
+  color: string;
+  start: number; // Julian date of the first point
+  step: number; // days between points
+  points: Vector2[]; // px, relative to where the origin is drawn
+  retrograde: RetrogradePeriod[];
+}
+
+interface ApparentMotionOverlayProps {
+  origin: FrameOriginId;
+  traces: ApparentTrace[];
+  julianDate: number;
+  screenPosition: (id: FrameOriginId, julianDate: number) => Vector2; // px, relative to the origin
+  labelledId: FrameOriginId; // the body whose stations are dated on the view
+}
+
+// Longitudes seen from the origin are read off a ring near the edge of the
+// view, standing in for the background stars.
+const SKY_RADIUS = 282; // px
+const RETROGRADE_COLOR = '#F87171';
+
+function screenPath(points: Vector2[]): string {
+  return `M ${points.map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`).join(' L ')}`;
+}
+
+function formatStation(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * What the sky looks like from a body other than the Sun, drawn over the
+ * scene once it is centred on that body: the paths the Sun and planets
+ * trace around it, with their retrograde loops, and their directions on a
+ * ring of ecliptic longitude. Distances from the origin are compressed like
+ * the scene's but directions are true, so the paths line up with the ring.
+ */
+export function ApparentMotionOverlay({ origin, traces, julianDate, screenPosition, labelledId }: ApparentMotionOverlayProps) {
+  // Traced paths, with each retrograde loop overdrawn from station to station.
+  const drawnTraces = useMemo(() => traces.map(trace => ({
+    trace,
+    path: screenPath(trace.points),
+    loops: trace.retrograde.map(period => {
+      const first = Math.ceil((period.start - trace.start) / trace.step);
+      const last = Math.floor((period.end - trace.start) / trace.step);
+      const inside = trace.points.slice(Math.max(0, first), Math.min(trace.points.length, last + 1));
+      const start = screenPosition(trace.id, period.start);
+      const end = screenPosition(trace.id, period.end);
+      return { period, path: screenPath([start, ...inside, end]), start, end };
+    }),
+  })), [traces, screenPosition]);
+
+  return (
+    <g>
+      {/* Ecliptic longitude ring */}
+      <circle r={SKY_RADIUS} fill="none" stroke="hsl(var(--accent))" strokeWidth="0.5" opacity="0.3" />
+      {Array.from({ length: 36 }, (_, i) => {
+        const angle = i * 10 * DEG_TO_RAD;
+        const inner = SKY_RADIUS - (i % 3 === 0 ? 6 : 3);
+        return (
+          <line
+            key={i}
+            x1={inner * Math.cos(angle)}
+            y1={inner * Math.sin(angle)}
+            x2={SKY_RADIUS * Math.cos(angle)}
+            y2={SKY_RADIUS * Math.sin(angle)}
+            stroke="hsl(var(--accent))"
+            strokeWidth="0.5"
+            opacity="0.4"
+          />
+        );
+      })}
+      {[0, 90, 180, 270].map(longitude => {
+        const angle = longitude * DEG_TO_RAD;
+        const r = SKY_RADIUS - 14;
+        return (
+          <text key={longitude} x={r * Math.cos(angle)} y={r * Math.sin(angle) + 3} textAnchor="middle" fontSize="8" fill="hsl(var(--accent))" opacity="0.6">
+            {longitude === 0 ? '♈︎' : `${longitude}°`}
+          </text>
+        );
+      })}
+
+      {drawnTraces.map(({ trace, path, loops }) => (
+        <g key={trace.id}>
+          <path d={path} fill="none" stroke={trace.color} strokeWidth="0.75" opacity="0.5" />
+          {loops.map(({ period, path: loopPath, start, end }) => (
+            <g key={period.start}>
+              <path d={loopPath} fill="none" stroke={RETROGRADE_COLOR} strokeWidth="1.5" opacity="0.8" />
+              <circle cx={start.x} cy={start.y} r="2" fill={RETROGRADE_COLOR} />
+              <circle cx={end.x} cy={end.y} r="2" fill="none" stroke={RETROGRADE_COLOR} strokeWidth="1" />
+              {trace.id === labelledId && (
+                <>
+                  <text x={start.x} y={start.y - 5} textAnchor="middle" fontSize="7" fill={RETROGRADE_COLOR}>R {formatStation(period.start)}</text>
+                  <text x={end.x} y={end.y + 10} textAnchor="middle" fontSize="7" fill={RETROGRADE_COLOR}>D {formatStation(period.end)}</text>
+                </>
+              )}
+            </g>
+          ))}
+        </g>
+      ))}
+
+      {/* A tick on the ring at each body's apparent longitude now */}
+      {traces.map(trace => {
+        const { x, y } = relativePosition(trace.id, origin, julianDate);
+        const angle = Math.atan2(y, x);
+        return (
+          <line
+            key={trace.id}
+            x1={(SKY_RADIUS - 8) * Math.cos(angle)}
+            y1={(SKY_RADIUS - 8) * Math.sin(angle)}
+            x2={(SKY_RADIUS + 4) * Math.cos(angle)}
+            y2={(SKY_RADIUS + 4) * Math.sin(angle)}
+            stroke={trace.color}
+            strokeWidth="1.5"
+          />
+        );
+      })}
+    </g>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useEffect, useRef, useState } from 'react';
+import { beltPositions, type BeltPopulation } from '@/lib/belts';
+import type { Vector2 } from '@/lib/orbital-mechanics';
+import { mapRadially } from '@/lib/solar-system';
+
+export interface DrawnBelt {
+  population: BeltPopulation;
+  color: string;
+}
+
+interface BeltCanvasProps {
+  belts: DrawnBelt[];
+  julianDate: number;
+  mapRadius: (au: number) => number;
+  frameAngle: number; // degrees, as applied to the scene's SVG group
+  offset: Vector2; // px the scene is shifted by to centre another body
+}
+
+const VIEW_SIZE = 600; // the scene's SVG viewBox is 600 × 600, centred on the Sun unless shifted by `offset`
+const PARTICLE_SIZE = 1; // CSS px
+
+// Thousands of SVG circles would be re-laid out every frame, so the belt
+// particles are painted onto a canvas behind the scene instead. It mirrors
+// the SVG's "xMidYMid meet" viewBox, so both share one coordinate system.
+export function BeltCanvas({ belts, julianDate, mapRadius, frameAngle, offset }: BeltCanvasProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const buffers = useRef(new Map<BeltPopulation, Float64Array>());
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    const width = Math.round(size.width * pixelRatio);
+    const height = Math.round(size.height * pixelRatio);
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+
+    const scale = Math.min(size.width, size.height) / VIEW_SIZE;
+    context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    context.clearRect(0, 0, size.width, size.height);
+    context.translate(size.width / 2, size.height / 2);
+    context.scale(scale, scale);
+    context.rotate((frameAngle * Math.PI) / 180);
+    context.translate(-offset.x, -offset.y);
+
+    const dot = PARTICLE_SIZE / scale;
+    for (const { population, color } of belts) {
+      let buffer = buffers.current.get(population);
+      if (!buffer) {
+        buffer = new Float64Array(population.count * 2);
+        buffers.current.set(population, buffer);
+      }
+      beltPositions(population, julianDate, buffer);
+      context.fillStyle = color;
+      context.globalAlpha = 0.7;
+      for (let i = 0; i < population.count; i++) {
+        const { x, y } = mapRadially({ x: buffer[2 * i], y: buffer[2 * i + 1] }, mapRadius);
+        context.fillRect(x - dot / 2, y - dot / 2, dot, dot);
+      }
+    }
+  }, [belts, julianDate, mapRadius, frameAngle, offset.x, offset.y, size]);
+
+  // Buffers for populations no longer drawn are dropped.
+  useEffect(() => {
+    const shown = new Set(belts.map(belt => belt.population));
+    buffers.current.forEach((_, population) => {
+      if (!shown.has(population)) buffers.current.delete(population);
+    });
+  }, [belts]);
+
+  return <canvas ref={canvasRef} className="pointer-events-none absolute inset-0 h-full w-full" aria-hidden="true" />;
+}
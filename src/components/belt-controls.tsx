@@ -0,0 +1,70 @@
+import { Torus } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { BeltPopulation } from '@/lib/belts';
+
+interface BeltControlsProps {
+  showMainBelt: boolean;
+  onMainBeltChange: (on: boolean) => void;
+  showKuiperBelt: boolean;
+  onKuiperBeltChange: (on: boolean) => void;
+  isJupiterSculpting: boolean;
+  onJupiterSculptingChange: (on: boolean) => void;
+  disabled: boolean;
+  populations: BeltPopulation[]; // the belts being drawn
+}
+
+export function BeltControls({
+  showMainBelt,
+  onMainBeltChange,
+  showKuiperBelt,
+  onKuiperBeltChange,
+  isJupiterSculpting,
+  onJupiterSculptingChange,
+  disabled,
+  populations,
+}: BeltControlsProps) {
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+      <Label className="flex items-center gap-2 text-foreground/80"><Torus size={16}/> Small-Body Belts</Label>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="main-belt-switch" className="text-foreground/80">Asteroid belt</Label>
+        <Switch
+          id="main-belt-switch"
+          checked={showMainBelt}
+          onCheckedChange={onMainBeltChange}
+          disabled={disabled}
+          aria-label="Toggle the asteroid belt"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="kuiper-belt-switch" className="text-foreground/80">Kuiper belt</Label>
+        <Switch
+          id="kuiper-belt-switch"
+          checked={showKuiperBelt}
+          onCheckedChange={onKuiperBeltChange}
+          disabled={disabled}
+          aria-label="Toggle the Kuiper belt"
+        />
+      </div>
+      <div className="flex items-center justify-between">
+        <Label htmlFor="sculpting-switch" className="text-foreground/80">Jupiter's resonance gaps (imposed)</Label>
+        <Switch
+          id="sculpting-switch"
+          checked={isJupiterSculpting}
+          onCheckedChange={onJupiterSculptingChange}
+          disabled={!showMainBelt}
+          aria-label="Toggle the imposed gaps at Jupiter's resonances"
+        />
+      </div>
+      {populations.length > 0 && (
+        <p className="text-xs text-foreground/60">
+          {populations.map(population => `${population.count.toLocaleString('en-US')} ${population.id === 'main' ? 'asteroids' : 'Kuiper belt objects'}`).join(' · ')}
+          {' '}on fixed Kepler orbits. Jupiter's pull on them isn't simulated: the switch simply empties the bands where an
+          asteroid would circle the Sun a whole number of times for each of Jupiter's orbits, the Kirkwood gaps its tugs
+          have cleared over billions of years.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { memo, useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { semiMajorAxisHistogram, type BeltPopulation, type Resonance } from '@/lib/belts';
+
+interface BeltHistogramProps {
+  population: BeltPopulation;
+  range: [number, number]; // AU
+  binWidth: number; // AU
+  resonances: Resonance[];
+}
+
+const chartConfig = {
+  count: { label: 'Particles', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+export const BeltHistogram = memo(function BeltHistogram({ population, range, binWidth, resonances }: BeltHistogramProps) {
+  const data = useMemo(
+    () => semiMajorAxisHistogram(population, range[0], range[1], binWidth),
+    [population, range, binWidth]
+  );
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-40 w-full">
+      <BarChart data={data} margin={{ top: 16, right: 8, bottom: 0, left: 0 }} barCategoryGap={0}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="semiMajorAxis"
+          type="number"
+          domain={range}
+          tickFormatter={(value: number) => `${value} AU`}
+        />
+        <YAxis width={36} allowDecimals={false} />
+        <ChartTooltip
+          content={<ChartTooltipContent labelFormatter={(_, payload) => `a ≈ ${payload[0]?.payload.semiMajorAxis.toFixed(2)} AU`} />}
+        />
+        <Bar dataKey="count" fill="var(--color-count)" isAnimationActive={false} />
+        {resonances.map(({ label, semiMajorAxis }) => (
+          <ReferenceLine
+            key={label}
+            x={semiMajorAxis}
+            stroke="hsl(var(--accent))"
+            strokeDasharray="3 3"
+            label={{ value: label, position: 'top', fontSize: 10, fill: 'hsl(var(--accent))' }}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+});
@@ -0,0 +1,44 @@
+import { BeltHistogram } from '@/components/belt-histogram';
+import { KIRKWOOD_GAPS, PLUTINO_RESONANCE, type BeltPopulation } from '@/lib/belts';
+
+interface BeltStructurePanelProps {
+  mainBelt: BeltPopulation | null;
+  kuiperBelt: BeltPopulation | null;
+  isJupiterSculpting: boolean;
+}
+
+// Bins fine enough to resolve the narrowest Kirkwood gap.
+const MAIN_BELT_RANGE: [number, number] = [2, 4.2]; // AU
+const MAIN_BELT_BIN = 0.02; // AU
+const KUIPER_BELT_RANGE: [number, number] = [36, 60]; // AU
+const KUIPER_BELT_BIN = 0.5; // AU
+
+export function BeltStructurePanel({ mainBelt, kuiperBelt, isJupiterSculpting }: BeltStructurePanelProps) {
+  return (
+    <div className="space-y-4 text-sm p-2">
+      {mainBelt && (
+        <div className="space-y-1">
+          <p className="text-xs font-semibold text-accent/80">Asteroid belt: semi-major axis{isJupiterSculpting && ', gaps imposed'}</p>
+          <BeltHistogram population={mainBelt} range={MAIN_BELT_RANGE} binWidth={MAIN_BELT_BIN} resonances={KIRKWOOD_GAPS} />
+          <p className="text-foreground/80">
+            Dashed lines mark Jupiter's mean-motion resonances: an asteroid at 3:1 orbits three times for each of Jupiter's
+            orbits. Repeated pulls at the same point of the orbit raise its eccentricity until Mars or the Sun removes it.
+            {' '}{isJupiterSculpting
+              ? "That isn't simulated here: the gaps are cut by hand, with widths picked to resemble the observed ones."
+              : "Turn on Jupiter's resonance gaps to see roughly where it clears them."}
+          </p>
+        </div>
+      )}
+      {kuiperBelt && (
+        <div className="space-y-1">
+          <p className="text-xs font-semibold text-accent/80">Kuiper belt: semi-major axis</p>
+          <BeltHistogram population={kuiperBelt} range={KUIPER_BELT_RANGE} binWidth={KUIPER_BELT_BIN} resonances={[PLUTINO_RESONANCE]} />
+          <p className="text-foreground/80">
+            Neptune's 3:2 resonance works the other way, protecting the plutinos (Pluto among them) from close encounters
+            even though many cross Neptune's orbit.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
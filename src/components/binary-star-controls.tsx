@@ -0,0 +1,147 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import {
+  STAR_TYPES,
+  binaryPeriod,
+  criticalDistance,
+  isPredictedStable,
+  type BinaryConfig,
+  type PlanetFate,
+  type PlanetOrbitType,
+  type StarTypeId,
+} from '@/lib/binary-star';
+
+// Planet distances offered for each orbit type, in units of the star separation.
+export const PLANET_DISTANCE_RANGES: Record<PlanetOrbitType, [number, number]> = {
+  S: [0.05, 0.8],
+  P: [1, 5],
+};
+
+interface BinaryStarControlsProps {
+  config: BinaryConfig;
+  onConfigChange: (config: BinaryConfig) => void;
+  starTypes: [StarTypeId, StarTypeId];
+  onStarTypesChange: (starTypes: [StarTypeId, StarTypeId]) => void;
+  fate: PlanetFate;
+  elapsedDays: number;
+}
+
+const FATE_LABELS: Record<PlanetFate, string> = {
+  orbiting: 'still orbiting',
+  ejected: 'ejected',
+  captured: 'captured by the other star',
+};
+
+/**
+ * Strip from the closest to the farthest planet distance, green where the
+ * Holman–Wiegert criterion predicts a stable orbit and red where it doesn't.
+ */
+function StabilityStrip({ config }: { config: BinaryConfig }) {
+  const [min, max] = PLANET_DISTANCE_RANGES[config.planetType].map(factor => factor * config.separation);
+  const toPercent = (distance: number) => (Math.min(max, Math.max(min, distance)) - min) / (max - min) * 100;
+  const limit = toPercent(criticalDistance(config));
+  const stableFirst = config.planetType === 'S';
+
+  return (
+    <div className="space-y-1">
+      <div className="relative h-3 rounded-full overflow-hidden bg-red-500/40">
+        <div
+          className="absolute inset-y-0 bg-green-500/50"
+          style={stableFirst ? { left: 0, width: `${limit}%` } : { left: `${limit}%`, right: 0 }}
+        />
+        <div className="absolute inset-y-0 w-0.5 bg-foreground" style={{ left: `${toPercent(config.planetDistance)}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-foreground/60 font-mono">
+        <span>{min.toFixed(2)} AU</span>
+        <span>limit {criticalDistance(config).toFixed(2)} AU</span>
+        <span>{max.toFixed(2)} AU</span>
+      </div>
+    </div>
+  );
+}
+
+export function BinaryStarControls({ config, onConfigChange, starTypes, onStarTypesChange, fate, elapsedDays }: BinaryStarControlsProps) {
+  const update = (changes: Partial<BinaryConfig>) => onConfigChange({ ...config, ...changes });
+  const [minDistance, maxDistance] = PLANET_DISTANCE_RANGES[config.planetType].map(factor => factor * config.separation);
+  const isStable = isPredictedStable(config);
+  const orbitsElapsed = elapsedDays / binaryPeriod(config);
+
+  const starControl = (index: 0 | 1, label: string, massKey: 'primaryMass' | 'secondaryMass') => (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-foreground/80">{label}: {config[massKey].toFixed(2)} M☉</Label>
+        <Select
+          value={starTypes[index]}
+          onValueChange={(value) => onStarTypesChange(index === 0 ? [value as StarTypeId, starTypes[1]] : [starTypes[0], value as StarTypeId])}
+        >
+          <SelectTrigger className="w-40 h-8" aria-label={`${label} color`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STAR_TYPES.map(type => (
+              <SelectItem key={type.id} value={type.id}>{type.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <Slider
+        min={0.1}
+        max={3}
+        step={0.05}
+        value={[config[massKey]]}
+        onValueChange={(value) => update({ [massKey]: value[0] })}
+        aria-label={`${label} mass`}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {starControl(0, 'Star A', 'primaryMass')}
+      {starControl(1, 'Star B', 'secondaryMass')}
+      <div className="space-y-1">
+        <Label className="text-foreground/80">Binary eccentricity: {config.eccentricity.toFixed(2)}</Label>
+        <Slider min={0} max={0.6} step={0.01} value={[config.eccentricity]} onValueChange={(value) => update({ eccentricity: value[0] })} aria-label="Binary eccentricity" />
+      </div>
+      <RadioGroup
+        value={config.planetType}
+        onValueChange={(value) => {
+          const planetType = value as PlanetOrbitType;
+          const [min, max] = PLANET_DISTANCE_RANGES[planetType];
+          update({ planetType, planetDistance: ((min + max) / 2) * config.separation });
+        }}
+        className="flex gap-6"
+        aria-label="Planet orbit type"
+      >
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="S" id="planet-s-type" />
+          <Label htmlFor="planet-s-type">S-type (around A)</Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <RadioGroupItem value="P" id="planet-p-type" />
+          <Label htmlFor="planet-p-type">P-type (around both)</Label>
+        </div>
+      </RadioGroup>
+      <div className="space-y-1">
+        <Label className="text-foreground/80">Planet distance: {config.planetDistance.toFixed(2)} AU</Label>
+        <Slider
+          min={minDistance}
+          max={maxDistance}
+          step={0.01}
+          value={[config.planetDistance]}
+          onValueChange={(value) => update({ planetDistance: value[0] })}
+          aria-label="Planet distance"
+        />
+      </div>
+      <StabilityStrip config={config} />
+      <p className="text-xs text-foreground/60">
+        Predicted <span className={cn('font-semibold', isStable ? 'text-green-400' : 'text-red-400')}>{isStable ? 'stable' : 'unstable'}</span>
+        {' '}(Holman &amp; Wiegert 1999). After {orbitsElapsed.toFixed(1)} binary orbits the planet is{' '}
+        <span className={cn('font-semibold', fate === 'orbiting' ? 'text-green-400' : 'text-red-400')}>{FATE_LABELS[fate]}</span>.
+      </p>
+    </div>
+  );
+}
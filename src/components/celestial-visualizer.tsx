@@ -13,33 +13,394 @@ import { Slider } from '@/components/ui/slider';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Button } from '@/components/ui/button';
-import { Pause, Play, RotateCw, CalendarDays, Zap, Orbit, Info } from 'lucide-react';
+import { Pause, Play, RotateCw, CalendarDays, Zap, Orbit, Info, Scaling, Sun, Moon, Hourglass, Atom, Sparkles, Crosshair, Rocket, Repeat, CalendarClock, Sunrise } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Input } from '@/components/ui/input';
+import {
+  DEG_TO_RAD,
+  RAD_TO_DEG,
+  TWO_PI,
+  eccentricToTrueAnomaly,
+  normalizeAngle,
+  positionFromEccentricAnomaly,
+  rotatePoint,
+  solveKepler,
+  type Vector2,
+} from '@/lib/orbital-mechanics';
+import {
+  AU_KM,
+  EARTH_MEAN_ELEMENTS,
+  J2000,
+  dateFromJulianDate,
+  heliocentricPosition,
+  julianDate,
+  longitudeOfDate,
+  siderealPeriod,
+  type HeliocentricPosition,
+} from '@/lib/ephemeris';
+import {
+  OUTER_SYSTEM_SCALE,
+  PLANETS,
+  SYSTEM_SCALE,
+  getPlanet,
+  mapRadially,
+  rotationAngle,
+  systemDisplayDistance,
+  systemDistanceFromDisplay,
+  type PlanetId,
+} from '@/lib/solar-system';
+import { moonState } from '@/lib/moon';
+import { MoonPhaseIcon } from '@/components/moon-phase-icon';
+import { SOLAR_ECLIPSE_LIMIT, eclipsesBetween, sunNodeSeparation } from '@/lib/eclipses';
+import { EclipseList } from '@/components/eclipse-list';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { equatorToEclipticLongitude, greenwichMeanSiderealTime, meanObliquity } from '@/lib/earth-rotation';
+import { orbitalForcing } from '@/lib/milankovitch';
+import {
+  advanceSystem,
+  dormandPrince,
+  conservationErrors,
+  conservedQuantities,
+  getIntegrator,
+  heliocentricFromState,
+  relativeState,
+  scaleVelocity,
+  solarSystemAt,
+  type ConservedQuantities,
+  type IntegratorSettings,
+  type NBodySystem,
+} from '@/lib/n-body';
+import type { DiagnosticSample } from '@/components/n-body-diagnostics-chart';
+import { createCustomBody, type CustomBody, type CustomBodyParameters } from '@/lib/custom-bodies';
+import { CustomBodyDialog, DEFAULT_CUSTOM_BODY } from '@/components/custom-body-dialog';
+import {
+  binarySystem,
+  getStarType,
+  planetFate,
+  type BinaryConfig,
+  type PlanetFate,
+  type StarType,
+  type StarTypeId,
+} from '@/lib/binary-star';
+import { BinaryStarControls } from '@/components/binary-star-controls';
+import { LagrangeOverlay } from '@/components/lagrange-overlay';
+import { SUN_EARTH_MASS_RATIO, lagrangePoints } from '@/lib/lagrange';
+import { currentPhaseAngle, hohmannTransfer, nextLaunchWindow, synodicPeriod, transferOrbitPoint } from '@/lib/transfers';
+import { TransferPlanner } from '@/components/transfer-planner';
+import { transferTrajectory, type InterplanetaryTransfer } from '@/lib/lambert';
+import {
+  COMETS,
+  cometOrbitPoint,
+  cometPosition,
+  tailStrength,
+  trueAnomalyLimit,
+  type CometId,
+} from '@/lib/comets';
+import { KIRKWOOD_GAPS, clearResonances, sampleBelt } from '@/lib/belts';
+import { BeltCanvas, type DrawnBelt } from '@/components/belt-canvas';
+import {
+  SPIN_ORBIT_BODIES,
+  getSpinOrbitBody,
+  resonantRotationPeriod,
+  resonantSpinAngle,
+  solarDay,
+  subPrimaryLongitude,
+  type SpinOrbitBodyId,
+  type SpinOrbitRatio,
+} from '@/lib/spin-orbit';
+import { SpinOrbitControls } from '@/components/spin-orbit-controls';
+import { relativePosition, retrogradePeriods, type FrameOriginId } from '@/lib/apparent-motion';
+import { ApparentMotionOverlay, type ApparentTrace } from '@/components/apparent-motion-overlay';
+import { formatEquationOfTime, solarCoordinates } from '@/lib/solar-time';
+import { AnalemmaChart } from '@/components/analemma-chart';
+import { DEFAULT_CITY, type Observer } from '@/lib/observer';
+import { ObserverPanel } from '@/components/observer-panel';
+import { InsolationPanel } from '@/components/insolation-panel';
+import { seasonStatus, type Hemisphere, type SeasonDefinition } from '@/lib/seasons';
+import { orbitEventsAround, type OrbitEventId } from '@/lib/orbit-events';
+import { OrbitEventList } from '@/components/orbit-event-list';
+import { SeasonsSideView } from '@/components/seasons-side-view';
+import { SeasonControls } from '@/components/season-controls';
+import { FrameOriginControls } from '@/components/frame-origin-controls';
+import { CustomBodyList } from '@/components/custom-body-list';
+import { CometControls } from '@/components/comet-controls';
+import { BeltControls } from '@/components/belt-controls';
+import { NBodyControls } from '@/components/n-body-controls';
+import { KeyParametersPanel } from '@/components/key-parameters-panel';
+import { LiveDataPanel, type RotationFrame } from '@/components/live-data-panel';
+import { NBodyDiagnosticsPanel } from '@/components/n-body-diagnostics-panel';
+import { PorkchopPanel } from '@/components/porkchop-panel';
+import { BeltStructurePanel } from '@/components/belt-structure-panel';
+import { MilankovitchPanel } from '@/components/milankovitch-panel';
+import { KeplerLawsPanel } from '@/components/kepler-laws-panel';
+import { CometGlyph, CustomBodyGlyph, EarthMoonGlyph, PlanetGlyph } from '@/components/scene-bodies';
 
 // Constants for simulation
-const ORBIT_RX = 250;
-const ORBIT_RY = 180;
+const ORBIT_SCALE = 200; // pixels per AU
 const SUN_RADIUS = 30;
+const SYSTEM_SUN_RADIUS = 12;
 const EARTH_RADIUS = 12;
-const AXIAL_TILT = 23.5; // Degrees
 const DAYS_IN_YEAR = 365.25;
 
+// Visual-only stretch of the drawn ellipse; the physics always uses the real eccentricity.
+const MIN_EXAGGERATION = 1;
+const MAX_EXAGGERATION = 25;
+const MAX_DRAWN_ECCENTRICITY = 0.9;
+const ORBIT_PATH_SEGMENTS = 120;
+
+// Comet orbits are drawn out to this distance; beyond it they leave the view.
+const COMET_PATH_LIMIT = 60; // AU
+const COMET_PATH_SEGMENTS = 240;
+const COMET_TAIL_LENGTH = 60; // px at full activity
+
+// Belt particles are sampled once per toggle.
+const MAIN_BELT_PARTICLES = 5000;
+const KUIPER_BELT_PARTICLES = 2500;
+const MAIN_BELT_COLOR = '#D6D3D1';
+const KUIPER_BELT_COLOR = '#93C5FD';
+
+// Seen from another body, each planet's path is traced this far either side
+// of the current date (enough for a whole loop of Mars), and retraced only
+// when the date has moved on by TRACE_RECENTER.
+const TRACE_HALF_SPAN = 400; // days
+const TRACE_STEP = 4; // days
+const TRACE_RECENTER = 90; // days
+const SUN_TRACE_COLOR = '#FACC15';
+
+const EVENT_MARKER_COLOR = '#FB923C';
+const EVENT_MARKER_LABELS: Record<OrbitEventId, string> = {
+  'march-equinox': 'Mar Eq',
+  'june-solstice': 'Jun Sol',
+  'september-equinox': 'Sep Eq',
+  'december-solstice': 'Dec Sol',
+  perihelion: 'Peri',
+  aphelion: 'Aph',
+};
+
 const speedLevels = [1, 7, 30.4, 365.25]; // days per second for each level
 const speedLabels = ['1 Day/s', '1 Week/s', '1 Month/s', '1 Year/s'];
+// Deep-time mode runs a separate clock in years for the Milankovitch cycles.
+const deepTimeSpeedLevels = [1000, 2500, 10000, 25000]; // years per second
+const deepTimeSpeedLabels = ['1 kyr/s', '2.5 kyr/s', '10 kyr/s', '25 kyr/s'];
+const DEEP_TIME_LIMIT = 1000000; // years either side of J2000
+
+// Binary-star scenario, drawn in its own barycentric frame and scaled so the
+// whole system fits the view.
+const DEFAULT_BINARY: BinaryConfig = {
+  primaryMass: 1,
+  secondaryMass: 0.6,
+  separation: 1,
+  eccentricity: 0.2,
+  planetType: 'S',
+  planetDistance: 0.2,
+};
+const BINARY_VIEW_RADIUS = 260; // px for the farthest the system reaches
+const BINARY_TRAIL_LENGTH = 400; // samples of the planet's recent path
+// Adaptive steps follow close passes during an ejection without slowing the stable case.
+const BINARY_INTEGRATOR_SETTINGS: IntegratorSettings = { stepSize: 1, tolerance: 1e-9 };
+
+// Conservation errors are sampled at most every DIAGNOSTIC_INTERVAL days; when
+// the history fills up, every other sample is dropped and the interval doubles.
+const DIAGNOSTIC_INTERVAL = 5; // days
+const MAX_DIAGNOSTIC_SAMPLES = 200;
 
 const START_DATE = new Date('2024-03-20T00:00:00Z'); // Vernal Equinox
+const START_JD = julianDate(START_DATE);
+
+const SUN_EARTH_LAGRANGE_POINTS = lagrangePoints(SUN_EARTH_MASS_RATIO);
+
+/**
+ * Screen point for a given eccentric anomaly on a planet's drawn orbit. The
+ * drawn eccentricity may be exaggerated; `mapRadius` turns AU into pixels.
+ */
+function drawnOrbitPoint(
+  position: Pick<HeliocentricPosition, 'longitudeOfPerihelion'>,
+  semiMajorAxis: number,
+  drawnEccentricity: number,
+  eccentricAnomaly: number,
+  mapRadius: (au: number) => number
+): Vector2 {
+  const point = rotatePoint(
+    positionFromEccentricAnomaly(semiMajorAxis, drawnEccentricity, eccentricAnomaly),
+    position.longitudeOfPerihelion
+  );
+  return mapRadially(point, mapRadius);
+}
+
+/** Where a body is drawn: on its drawn orbit, or where it is if it has none. */
+function drawnPosition(position: HeliocentricPosition, exaggeration: number, mapRadius: (au: number) => number): Vector2 {
+  if (position.eccentricity >= 1) return mapRadially(position, mapRadius);
+  const drawnEccentricity = Math.min(position.eccentricity * exaggeration, MAX_DRAWN_ECCENTRICITY);
+  return drawnOrbitPoint(position, position.semiMajorAxis, drawnEccentricity, position.eccentricAnomaly, mapRadius);
+}
+
+interface DrawnOrbit {
+  orbitPath: string | null;
+  perihelion: Vector2 | null;
+  aphelion: Vector2 | null;
+  screen: Vector2;
+}
+
+/**
+ * The drawn ellipse reuses the body's physical eccentric anomaly with a
+ * stretched eccentricity, so it keeps its real timing on the exaggerated
+ * shape. A body on an escape orbit has no ellipse and is drawn where it is.
+ */
+function drawnOrbit(position: HeliocentricPosition, exaggeration: number, mapRadius: (au: number) => number): DrawnOrbit {
+  if (position.eccentricity >= 1) {
+    return { orbitPath: null, perihelion: null, aphelion: null, screen: drawnPosition(position, exaggeration, mapRadius) };
+  }
+  const { semiMajorAxis } = position;
+  const drawnEccentricity = Math.min(position.eccentricity * exaggeration, MAX_DRAWN_ECCENTRICITY);
+  return {
+    orbitPath: drawnOrbitPath(position, semiMajorAxis, drawnEccentricity, mapRadius),
+    perihelion: drawnOrbitPoint(position, semiMajorAxis, drawnEccentricity, 0, mapRadius),
+    aphelion: drawnOrbitPoint(position, semiMajorAxis, drawnEccentricity, Math.PI, mapRadius),
+    screen: drawnPosition(position, exaggeration, mapRadius),
+  };
+}
+
+// An N-body integration with the conserved quantities it started with and
+// the history of its conservation errors.
+interface NBodyRun {
+  system: NBodySystem;
+  startJulianDate: number;
+  reference: ConservedQuantities;
+  samples: DiagnosticSample[];
+  sampleInterval: number; // days
+}
+
+function startNBodyRun(system: NBodySystem): NBodyRun {
+  return {
+    system,
+    startJulianDate: system.julianDate,
+    reference: conservedQuantities(system),
+    samples: [{ years: 0, energy: 0, angularMomentum: 0 }],
+    sampleInterval: DIAGNOSTIC_INTERVAL,
+  };
+}
+
+function advanceNBodyRun(run: NBodyRun, duration: number, integratorId: string, settings: IntegratorSettings): NBodyRun {
+  const system = advanceSystem(run.system, duration, getIntegrator(integratorId), settings);
+  const elapsed = system.julianDate - run.startJulianDate;
+  const lastSample = run.samples[run.samples.length - 1];
+  if (Math.abs(elapsed - lastSample.years * DAYS_IN_YEAR) < run.sampleInterval) {
+    return { ...run, system };
+  }
+  let samples = [...run.samples, { years: elapsed / DAYS_IN_YEAR, ...conservationErrors(run.reference, conservedQuantities(system)) }];
+  let sampleInterval = run.sampleInterval;
+  if (samples.length > MAX_DIAGNOSTIC_SAMPLES) {
+    samples = samples.filter((_, i) => i % 2 === 0);
+    sampleInterval *= 2;
+  }
+  return { ...run, system, samples, sampleInterval };
+}
+
+// A binary-star integration with the planet's recent path (AU, barycentric)
+// and its fate, which stays set once the planet leaves its host.
+interface BinaryRun {
+  run: NBodyRun;
+  trail: Vector2[];
+  fate: PlanetFate;
+}
+
+function startBinaryRun(config: BinaryConfig): BinaryRun {
+  return { run: startNBodyRun(binarySystem(config)), trail: [], fate: 'orbiting' };
+}
+
+function advanceBinaryRun(binary: BinaryRun, duration: number, config: BinaryConfig): BinaryRun {
+  const run = advanceNBodyRun(binary.run, duration, dormandPrince.id, BINARY_INTEGRATOR_SETTINGS);
+  const planet = run.system.particles.find(p => p.id === 'planet')!;
+  return {
+    run,
+    trail: [...binary.trail.slice(1 - BINARY_TRAIL_LENGTH), { x: planet.x, y: planet.y }],
+    fate: binary.fate === 'orbiting' ? planetFate(run.system, config) : binary.fate,
+  };
+}
+
+// Main-sequence radius grows roughly as M^0.8.
+function starDisplayRadius(mass: number): number {
+  return Math.min(24, Math.max(4, 10 * Math.pow(mass, 0.8)));
+}
+
+function formatKilometres(km: number): string {
+  return `${(km / 1e6).toFixed(2)} million km`;
+}
+
+/** Describes a deep-time offset from J2000 in thousands of years. */
+function formatEpoch(years: number): string {
+  const kyr = Math.abs(years) / 1000;
+  if (kyr < 0.05) return 'Present day';
+  return `${kyr.toFixed(1)} ka ${years < 0 ? 'ago' : 'from now'}`;
+}
+
+function drawnOrbitPath(
+  position: Pick<HeliocentricPosition, 'longitudeOfPerihelion'>,
+  semiMajorAxis: number,
+  drawnEccentricity: number,
+  mapRadius: (au: number) => number
+): string {
+  const points = Array.from({ length: ORBIT_PATH_SEGMENTS }, (_, i) => {
+    const { x, y } = drawnOrbitPoint(position, semiMajorAxis, drawnEccentricity, (i / ORBIT_PATH_SEGMENTS) * TWO_PI, mapRadius);
+    return `${x.toFixed(2)},${y.toFixed(2)}`;
+  });
+  return `M ${points.join(' L ')} Z`;
+}
 
 export default function CelestialVisualizer() {
   const [speedLevel, setSpeedLevel] = useState(1);
   const [isRotationEnabled, setRotationEnabled] = useState(true);
   const [isPaused, setPaused] = useState(false);
   const [simulationTime, setSimulationTime] = useState(0); // in days
+  const [eccentricityExaggeration, setEccentricityExaggeration] = useState(MIN_EXAGGERATION);
+  const [rotationFrame, setRotationFrame] = useState<RotationFrame>('stars');
+  const [isSystemMode, setSystemMode] = useState(false);
+  const [selectedPlanetId, setSelectedPlanetId] = useState<PlanetId>('earth');
+  const [jumpDate, setJumpDate] = useState(START_DATE.toISOString().slice(0, 10));
+  const [isDeepTime, setDeepTime] = useState(false);
+  const [deepTimeYears, setDeepTimeYears] = useState(0); // relative to J2000
+  const [isNBodyMode, setNBodyMode] = useState(false);
+  const [nBodyRun, setNBodyRun] = useState<NBodyRun>(() => startNBodyRun(solarSystemAt(START_JD)));
+  const [integratorId, setIntegratorId] = useState('leapfrog');
+  const [stepSize, setStepSize] = useState(0.5); // days
+  const [tolerance, setTolerance] = useState(1e-10);
+  const [customBodies, setCustomBodies] = useState<CustomBody[]>([]);
+  const [isBodyDialogOpen, setBodyDialogOpen] = useState(false);
+  const [editingBodyId, setEditingBodyId] = useState<string | null>(null);
+  const [bodyDialogValues, setBodyDialogValues] = useState<CustomBodyParameters>(DEFAULT_CUSTOM_BODY);
+  const nextCustomBodyId = useRef(1);
+  const [isBinaryMode, setBinaryMode] = useState(false);
+  const [binaryConfig, setBinaryConfig] = useState<BinaryConfig>(DEFAULT_BINARY);
+  const [starTypes, setStarTypes] = useState<[StarTypeId, StarTypeId]>(['G', 'M']);
+  const [binaryRun, setBinaryRun] = useState<BinaryRun>(() => startBinaryRun(DEFAULT_BINARY));
+  const [showLagrangePoints, setShowLagrangePoints] = useState(false);
+  const [showPotentialContours, setShowPotentialContours] = useState(false);
+  const [isRotatingFrame, setRotatingFrame] = useState(false);
+  const [isPlannerOpen, setPlannerOpen] = useState(false);
+  const [transferRoute, setTransferRoute] = useState<{ origin: PlanetId; destination: PlanetId }>({ origin: 'earth', destination: 'mars' });
+  const [loadedTransfer, setLoadedTransfer] = useState<InterplanetaryTransfer | null>(null);
+  const [cometIds, setCometIds] = useState<CometId[]>([]);
+  const [showMainBelt, setShowMainBelt] = useState(false);
+  const [showKuiperBelt, setShowKuiperBelt] = useState(false);
+  const [isJupiterSculpting, setJupiterSculpting] = useState(true);
+  const [isSpinOrbitOn, setSpinOrbitOn] = useState(false);
+  const [frameOrigin, setFrameOrigin] = useState<FrameOriginId>('sun');
+  const [observer, setObserver] = useState<Observer>({ latitude: DEFAULT_CITY.latitude, longitude: DEFAULT_CITY.longitude });
+  const [observerCityId, setObserverCityId] = useState(DEFAULT_CITY.id);
+  const [hemisphere, setHemisphere] = useState<Hemisphere>('north');
+  const [seasonDefinition, setSeasonDefinition] = useState<SeasonDefinition>('astronomical');
+  const [showEventMarkers, setShowEventMarkers] = useState(true);
+  const [spinOrbitBodyId, setSpinOrbitBodyId] = useState<SpinOrbitBodyId>('moon');
+  const [spinOrbitRatios, setSpinOrbitRatios] = useState<Record<SpinOrbitBodyId, SpinOrbitRatio>>(
+    () => Object.fromEntries(SPIN_ORBIT_BODIES.map(body => [body.id, body.resonance])) as Record<SpinOrbitBodyId, SpinOrbitRatio>
+  );
   
   const animationFrameId = useRef<number>();
   const lastTimeRef = useRef<number>();
 
   const speed = useMemo(() => speedLevels[speedLevel], [speedLevel]);
+  const deepTimeSpeed = deepTimeSpeedLevels[speedLevel];
 
   const animate = useCallback((time: number) => {
     if (lastTimeRef.current === undefined) {
@@ -47,13 +408,21 @@ export default function CelestialVisualizer() {
     }
     const deltaTime = (time - lastTimeRef.current) / 1000; // in seconds
     
-    if (!isPaused) {
+    if (!isPaused && isDeepTime) {
+      setDeepTimeYears(prevYears => Math.max(-DEEP_TIME_LIMIT, Math.min(DEEP_TIME_LIMIT, prevYears + deltaTime * deepTimeSpeed)));
+    } else if (!isPaused) {
       setSimulationTime(prevTime => prevTime + deltaTime * speed);
+      if (isNBodyMode) {
+        setNBodyRun(prevRun => advanceNBodyRun(prevRun, deltaTime * speed, integratorId, { stepSize, tolerance }));
+      }
+      if (isBinaryMode) {
+        setBinaryRun(prevRun => advanceBinaryRun(prevRun, deltaTime * speed, binaryConfig));
+      }
     }
     
     lastTimeRef.current = time;
     animationFrameId.current = requestAnimationFrame(animate);
-  }, [isPaused, speed]);
+  }, [isPaused, isDeepTime, isNBodyMode, isBinaryMode, binaryConfig, integratorId, stepSize, tolerance, speed, deepTimeSpeed]);
 
   useEffect(() => {
     animationFrameId.current = requestAnimationFrame(animate);
@@ -65,47 +434,465 @@ export default function CelestialVisualizer() {
     };
   }, [animate]);
   
-  const dayOfYear = useMemo(() => simulationTime % DAYS_IN_YEAR, [simulationTime]);
-  
-  const getOrbitalStatus = useCallback((currentDay: number): string => {
-    const day = Math.floor(currentDay);
-    if (day >= 0 && day < 5 || day >= 360) return "Vernal Equinox";
-    if (day > 5 && day < 86) return "Spring";
-    if (day >= 86 && day < 96) return "Summer Solstice";
-    if (day > 96 && day < 177) return "Summer";
-    if (day >= 177 && day < 187) return "Autumnal Equinox";
-    if (day > 187 && day < 268) return "Autumn";
-    if (day >= 268 && day < 278) return "Winter Solstice";
-    if (day > 278 && day < 360) return "Winter";
-    return "In Orbit";
+  // simulationTime counts days from START_DATE; everything below is derived
+  // from the resulting Julian date, so any calendar date can be shown.
+  const currentJulianDate = START_JD + simulationTime;
+  const simulatedDate = useMemo(() => dateFromJulianDate(currentJulianDate), [currentJulianDate]);
+
+  const dayOfYear = useMemo(() => {
+    const yearStart = Date.UTC(simulatedDate.getUTCFullYear(), 0, 1);
+    return (simulatedDate.getTime() - yearStart) / 86400000;
+  }, [simulatedDate]);
+
+  const currentDate = useMemo(
+    () => simulatedDate.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC' }),
+    [simulatedDate]
+  );
+
+  const jumpToDate = useCallback(() => {
+    const target = new Date(`${jumpDate}T00:00:00Z`);
+    if (Number.isNaN(target.getTime())) return;
+    setSimulationTime(julianDate(target) - START_JD);
+    // Integrating across the gap would take too long, so N-body mode restarts from the ephemeris.
+    setNBodyRun(startNBodyRun(solarSystemAt(julianDate(target), customBodies)));
+  }, [jumpDate, customBodies]);
+
+  // Events like eclipses are brief, so jumping to one also pauses the clock.
+  const jumpToEvent = useCallback((targetJulianDate: number) => {
+    setSimulationTime(targetJulianDate - START_JD);
+    setNBodyRun(startNBodyRun(solarSystemAt(targetJulianDate, customBodies)));
+    setPaused(true);
+  }, [customBodies]);
+
+  // Mean orbital elements give each planet's heliocentric position for the
+  // simulated date; Kepler's equation supplies the eccentric anomaly.
+  const simulatedYears = (currentJulianDate - J2000) / DAYS_IN_YEAR;
+  const forcing = useMemo(() => orbitalForcing(isDeepTime ? deepTimeYears : simulatedYears), [isDeepTime, deepTimeYears, simulatedYears]);
+  const axialTilt = isDeepTime ? forcing.obliquity : meanObliquity(currentJulianDate);
+
+  const toggleDeepTime = useCallback((enabled: boolean) => {
+    if (enabled) setDeepTimeYears(Math.round(simulatedYears));
+    setDeepTime(enabled);
+  }, [simulatedYears]);
+
+  // N-body runs start from the ephemeris state at the current date. Kicks
+  // change the energy on purpose, so they also restart the diagnostics.
+  const resetNBodyRun = useCallback(
+    (bodies: CustomBody[] = customBodies) => setNBodyRun(startNBodyRun(solarSystemAt(currentJulianDate, bodies))),
+    [currentJulianDate, customBodies]
+  );
+
+  const toggleNBodyMode = useCallback((enabled: boolean) => {
+    if (enabled) resetNBodyRun();
+    setNBodyMode(enabled);
+  }, [resetNBodyRun]);
+
+  const selectIntegrator = (id: string) => {
+    setIntegratorId(id);
+    resetNBodyRun();
+  };
+
+  const kickSelectedPlanet = (factor: number) =>
+    setNBodyRun(prevRun => startNBodyRun(scaleVelocity(prevRun.system, selectedPlanetId, factor)));
+
+  // Custom bodies are massless test particles in N-body mode, so the run
+  // restarts whenever the list changes.
+  const updateCustomBodies = (bodies: CustomBody[]) => {
+    setCustomBodies(bodies);
+    if (isNBodyMode) resetNBodyRun(bodies);
+  };
+
+  const saveCustomBody = (parameters: CustomBodyParameters) => {
+    const id = editingBodyId ?? `custom-${nextCustomBodyId.current++}`;
+    const body = createCustomBody(id, parameters, currentJulianDate);
+    updateCustomBodies(editingBodyId ? customBodies.map(existing => (existing.id === id ? body : existing)) : [...customBodies, body]);
+  };
+
+  const removeCustomBody = (id: string) => updateCustomBodies(customBodies.filter(body => body.id !== id));
+
+  const updateBinaryConfig = (config: BinaryConfig) => {
+    setBinaryConfig(config);
+    setBinaryRun(startBinaryRun(config));
+  };
+
+  const toggleBinaryMode = (enabled: boolean) => {
+    if (enabled) setBinaryRun(startBinaryRun(binaryConfig));
+    setBinaryMode(enabled);
+  };
+
+  // Turns a setter into one that also switches to solar-system mode when
+  // `needsSystem` says the new value is only visible at that scale.
+  const needingSystemView = <T,>(set: (value: T) => void, needsSystem: (value: T) => boolean) => (value: T) => {
+    if (needsSystem(value)) setSystemMode(true);
+    set(value);
+  };
+
+  // Transfers reach past Earth's orbit, so the planner shows the whole system.
+  const openPlanner = needingSystemView(setPlannerOpen, (open: boolean) => open);
+
+  const changeTransferRoute = (origin: PlanetId, destination: PlanetId) => {
+    setTransferRoute({ origin, destination });
+    setLoadedTransfer(null);
+  };
+
+  // A trajectory picked on the porkchop plot is shown from its departure date.
+  const loadTransfer = useCallback((transfer: InterplanetaryTransfer) => {
+    setLoadedTransfer(transfer);
+    jumpToEvent(transfer.departureJulianDate);
+  }, [jumpToEvent]);
+
+  // Comet orbits reach far past Earth's, so adding one shows the whole system.
+  const toggleComet = needingSystemView(
+    (id: CometId) => setCometIds(cometIds.includes(id) ? cometIds.filter(existing => existing !== id) : [...cometIds, id]),
+    id => !cometIds.includes(id)
+  );
+
+  // The belts lie beyond Mars and Neptune, so showing one shows the whole system.
+  const toggleMainBelt = needingSystemView(setShowMainBelt, (show: boolean) => show);
+  const toggleKuiperBelt = needingSystemView(setShowKuiperBelt, (show: boolean) => show);
+
+  // Other bodies' views need the whole system's scale.
+  const changeFrameOrigin = needingSystemView(setFrameOrigin, (id: FrameOriginId) => id !== 'sun');
+
+  // Leaving solar-system mode hands the view back to the Sun.
+  const changeSystemMode = (on: boolean) => {
+    if (!on) setFrameOrigin('sun');
+    setSystemMode(on);
+  };
+
+  const changeObserver = useCallback((location: Observer, cityId: string) => {
+    setObserver(location);
+    setObserverCityId(cityId);
   }, []);
 
-  const currentDate = useMemo(() => {
-    const date = new Date(START_DATE);
-    date.setDate(date.getDate() + Math.floor(simulationTime));
-    return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
-  }, [simulationTime]);
+  // Mercury is only drawn in solar-system mode.
+  const toggleSpinOrbit = needingSystemView(setSpinOrbitOn, (on: boolean) => on && spinOrbitBodyId === 'mercury');
+  const selectSpinOrbitBody = needingSystemView(setSpinOrbitBodyId, (id: SpinOrbitBodyId) => id === 'mercury');
+
+  // Mean orbital elements give each planet's heliocentric position for the
+  // simulated date; Kepler's equation supplies the eccentric anomaly. In
+  // deep time, Earth's orbit shape and perihelion follow the Milankovitch
+  // cycles instead, with the screen's +x axis on the equinox of that epoch;
+  // the date keeps its mean longitude from the equinox, so its place in the
+  // calendar, and Earth is put on the forced orbit from there.
+  // In N-body mode, positions and osculating orbits come from the integrator.
+  const planetPositions = useMemo(() => {
+    if (isNBodyMode) {
+      return new Map(PLANETS.map(planet => [planet.id, heliocentricFromState(relativeState(nBodyRun.system, planet.id)!)]));
+    }
+    const positions = new Map(PLANETS.map(planet => [planet.id, heliocentricPosition(planet.elements, currentJulianDate)]));
+    if (isDeepTime) {
+      const earthNow = positions.get('earth')!;
+      const { eccentricity } = forcing;
+      const longitudeOfPerihelion = ((forcing.perihelionLongitude + 180) % 360) * DEG_TO_RAD;
+      const meanLongitude = longitudeOfDate(earthNow.longitudeOfPerihelion + earthNow.meanAnomaly, currentJulianDate);
+      const meanAnomaly = normalizeAngle(meanLongitude - longitudeOfPerihelion);
+      const eccentricAnomaly = solveKepler(meanAnomaly, eccentricity);
+      const trueAnomaly = eccentricToTrueAnomaly(eccentricAnomaly, eccentricity);
+      const radius = earthNow.semiMajorAxis * (1 - eccentricity * Math.cos(eccentricAnomaly));
+      const longitude = normalizeAngle(longitudeOfPerihelion + trueAnomaly);
+      positions.set('earth', {
+        ...earthNow,
+        x: radius * Math.cos(longitude),
+        y: radius * Math.sin(longitude),
+        z: 0,
+        radius,
+        longitude,
+        latitude: 0,
+        eccentricity,
+        longitudeOfPerihelion,
+        meanAnomaly,
+        eccentricAnomaly,
+        trueAnomaly,
+      });
+    }
+    return positions;
+  }, [currentJulianDate, isDeepTime, forcing, isNBodyMode, nBodyRun.system]);
+  const earth = planetPositions.get('earth')!;
+
+  const customPositions = useMemo(
+    () => new Map(customBodies.map(body => {
+      const state = isNBodyMode ? relativeState(nBodyRun.system, body.id) : undefined;
+      return [body.id, state ? heliocentricFromState(state) : heliocentricPosition(body.elements, currentJulianDate)];
+    })),
+    [customBodies, isNBodyMode, nBodyRun.system, currentJulianDate]
+  );
+
+  // Editing starts from the body's mean anomaly now, so saving without
+  // changes leaves it where it is.
+  const openBodyDialog = (body?: CustomBody) => {
+    if (body) {
+      const meanAnomaly = customPositions.get(body.id)!.meanAnomaly * RAD_TO_DEG;
+      setBodyDialogValues({ ...body, meanAnomaly: Number.isFinite(meanAnomaly) ? Math.round(meanAnomaly * 10) / 10 : body.meanAnomaly });
+    } else {
+      setBodyDialogValues(DEFAULT_CUSTOM_BODY);
+    }
+    setEditingBodyId(body?.id ?? null);
+    setBodyDialogOpen(true);
+  };
 
-  const earthOrbitalAngle = (dayOfYear / DAYS_IN_YEAR) * 2 * Math.PI;
-  const earthX = ORBIT_RX * Math.cos(earthOrbitalAngle);
-  const earthY = ORBIT_RY * Math.sin(earthOrbitalAngle);
+  // Earth-only mode draws the orbit to linear scale; solar-system mode
+  // compresses distances so Neptune fits on screen, or the Kuiper belt when shown.
+  const viewOrigin: FrameOriginId = isSystemMode && !isBinaryMode ? frameOrigin : 'sun';
+  const isHeliocentric = viewOrigin === 'sun';
+  const originPlanet = viewOrigin !== 'sun' ? getPlanet(viewOrigin) : null;
+  const showBelts = isSystemMode && !isBinaryMode;
+  const systemScale = showBelts && showKuiperBelt ? OUTER_SYSTEM_SCALE : SYSTEM_SCALE;
+  const mapRadius = useCallback(
+    (au: number) => (isSystemMode ? systemDisplayDistance(au, systemScale) : ORBIT_SCALE * au),
+    [isSystemMode, systemScale]
+  );
+  const unmapRadius = useCallback(
+    (px: number) => (isSystemMode ? systemDistanceFromDisplay(px, systemScale) : px / ORBIT_SCALE),
+    [isSystemMode, systemScale]
+  );
+
+  // With Jupiter's sculpting on, the particles in its strongest resonances
+  // are removed by hand, standing in for the Solar System's history; Jupiter
+  // itself doesn't act on them.
+  const mainBelt = useMemo(() => (showMainBelt ? sampleBelt('main', MAIN_BELT_PARTICLES) : null), [showMainBelt]);
+  const sculptedMainBelt = useMemo(
+    () => (mainBelt && isJupiterSculpting ? clearResonances(mainBelt, KIRKWOOD_GAPS) : mainBelt),
+    [mainBelt, isJupiterSculpting]
+  );
+  const kuiperBelt = useMemo(() => (showKuiperBelt ? sampleBelt('kuiper', KUIPER_BELT_PARTICLES, 2) : null), [showKuiperBelt]);
+  const drawnBelts = useMemo(() => {
+    const belts: DrawnBelt[] = [];
+    if (sculptedMainBelt) belts.push({ population: sculptedMainBelt, color: MAIN_BELT_COLOR });
+    if (kuiperBelt) belts.push({ population: kuiperBelt, color: KUIPER_BELT_COLOR });
+    return belts;
+  }, [sculptedMainBelt, kuiperBelt]);
+
+  // The screen's +x axis points toward the vernal equinox (J2000).
+  const drawnPlanets = useMemo(() => {
+    const shown = isSystemMode ? PLANETS : PLANETS.filter(planet => planet.id === 'earth');
+    return shown.map(planet => ({ planet, ...drawnOrbit(planetPositions.get(planet.id)!, eccentricityExaggeration, mapRadius) }));
+  }, [isSystemMode, planetPositions, eccentricityExaggeration, mapRadius]);
+
+  // Custom bodies are drawn in both views, since the user added them on purpose.
+  const drawnCustomBodies = useMemo(
+    () => customBodies.map(body => ({ body, ...drawnOrbit(customPositions.get(body.id)!, eccentricityExaggeration, mapRadius) })),
+    [customBodies, customPositions, eccentricityExaggeration, mapRadius]
+  );
 
-  const earthRotationAngle = isRotationEnabled ? (simulationTime * 360) % 360 : 0;
+  // Comets are drawn on their real (often steeply inclined) orbits projected
+  // onto the ecliptic, with the tail pointing straight away from the Sun.
+  const drawnComets = useMemo(() => COMETS.filter(comet => cometIds.includes(comet.id)).map(comet => {
+    const toScreen = (point: Vector2) => mapRadially(point, mapRadius);
+    const limit = trueAnomalyLimit(comet, COMET_PATH_LIMIT);
+    const points = Array.from({ length: COMET_PATH_SEGMENTS + 1 }, (_, i) => {
+      const { x, y } = toScreen(cometOrbitPoint(comet, -limit + (2 * limit * i) / COMET_PATH_SEGMENTS));
+      return `${x.toFixed(2)},${y.toFixed(2)}`;
+    });
+    const position = cometPosition(comet, currentJulianDate);
+    const screen = toScreen(position);
+    return {
+      comet,
+      position,
+      screen,
+      orbitPath: `M ${points.join(' L ')}${limit === Math.PI ? ' Z' : ''}`,
+      tailAngle: Math.atan2(screen.y, screen.x) * RAD_TO_DEG,
+      tailLength: COMET_TAIL_LENGTH * tailStrength(position.radius),
+    };
+  }), [cometIds, mapRadius, currentJulianDate]);
+
+  // From another body, the scene is shifted to keep it at the centre, and
+  // the Sun and planets trace their paths around it, with the retrograde
+  // loops found from the stations of their apparent longitude. Each path
+  // compresses the true separation from the origin, so its directions are
+  // exact even where it misses a body drawn on the compressed scene.
+  const viewOffset = (originPlanet && drawnPlanets.find(({ planet }) => planet.id === originPlanet.id)?.screen) || { x: 0, y: 0 };
+  const apparentScreenPosition = useCallback(
+    (id: FrameOriginId, jd: number): Vector2 => mapRadially(relativePosition(id, viewOrigin, jd), mapRadius),
+    [viewOrigin, mapRadius]
+  );
+  const traceCenter = Math.round(currentJulianDate / TRACE_RECENTER) * TRACE_RECENTER;
+  const apparentTraces = useMemo((): ApparentTrace[] => {
+    if (viewOrigin === 'sun') return [];
+    const start = traceCenter - TRACE_HALF_SPAN;
+    const end = traceCenter + TRACE_HALF_SPAN;
+    const targets = [
+      { id: 'sun' as const, name: 'Sun', color: SUN_TRACE_COLOR },
+      ...PLANETS.filter(planet => planet.id !== viewOrigin).map(({ id, name, color }) => ({ id, name, color })),
+    ];
+    return targets.map(target => ({
+      ...target,
+      start,
+      step: TRACE_STEP,
+      points: Array.from({ length: (end - start) / TRACE_STEP + 1 }, (_, i) => apparentScreenPosition(target.id, start + i * TRACE_STEP)),
+      retrograde: target.id === 'sun' ? [] : retrogradePeriods(target.id, viewOrigin, start, end),
+    }));
+  }, [viewOrigin, traceCenter, apparentScreenPosition]);
+
+  // Binary mode is drawn about the barycenter; each star follows an ellipse
+  // scaled by the other's share of the mass, with periapses on opposite sides.
+  const binaryScale = useMemo(() => {
+    const { separation, eccentricity, planetType, planetDistance } = binaryConfig;
+    const starExtent = separation * (1 + eccentricity);
+    const extent = planetType === 'S' ? starExtent + planetDistance : Math.max(starExtent, planetDistance * 1.25);
+    return BINARY_VIEW_RADIUS / extent;
+  }, [binaryConfig]);
+  const binaryStarOrbits = useMemo(() => {
+    const { primaryMass, secondaryMass, separation, eccentricity } = binaryConfig;
+    const totalMass = primaryMass + secondaryMass;
+    const toScreen = (au: number) => au * binaryScale;
+    return [
+      { id: 'primary', path: drawnOrbitPath({ longitudeOfPerihelion: 0 }, (separation * secondaryMass) / totalMass, eccentricity, toScreen) },
+      { id: 'secondary', path: drawnOrbitPath({ longitudeOfPerihelion: Math.PI }, (separation * primaryMass) / totalMass, eccentricity, toScreen) },
+    ];
+  }, [binaryConfig, binaryScale]);
+  const binaryTrail = binaryRun.trail.length > 1
+    ? `M ${binaryRun.trail.map(point => `${(point.x * binaryScale).toFixed(1)},${(point.y * binaryScale).toFixed(1)}`).join(' L ')}`
+    : null;
+  const binaryParticle = (id: string) => binaryRun.run.system.particles.find(p => p.id === id)!;
+  const binaryPlanet = { x: binaryParticle('planet').x * binaryScale, y: binaryParticle('planet').y * binaryScale };
+
+  const { x: earthX, y: earthY } = drawnPlanets.find(({ planet }) => planet.id === 'earth')!.screen;
+  const selectedOrbit = drawnPlanets.find(({ planet }) => planet.id === selectedPlanetId);
+
+  // The events either side of the clock, found again only once it runs
+  // past the next one or back before the last, and not at all in deep time.
+  const orbitEventsCache = useRef<ReturnType<typeof orbitEventsAround> | null>(null);
+  const orbitEvents = useMemo(() => {
+    if (isDeepTime) return null;
+    const cached = orbitEventsCache.current;
+    if (cached && currentJulianDate >= cached.previous[0].julianDate && currentJulianDate < cached.next[0].julianDate) {
+      return cached;
+    }
+    return (orbitEventsCache.current = orbitEventsAround(currentJulianDate));
+  }, [currentJulianDate, isDeepTime]);
+  // Where Earth will be at each upcoming event, on its drawn orbit.
+  const eventMarkers = useMemo(() => (orbitEvents?.next ?? []).map(event => {
+    const position = heliocentricPosition(EARTH_MEAN_ELEMENTS, event.julianDate);
+    const drawnEccentricity = Math.min(position.eccentricity * eccentricityExaggeration, MAX_DRAWN_ECCENTRICITY);
+    const point = drawnOrbitPoint(position, position.semiMajorAxis, drawnEccentricity, position.eccentricAnomaly, mapRadius);
+    const r = Math.hypot(point.x, point.y);
+    return { event, point, label: { x: point.x * (1 + 12 / r), y: point.y * (1 + 12 / r) } };
+  }), [orbitEvents, eccentricityExaggeration, mapRadius]);
+  const sunRadius = isSystemMode ? SYSTEM_SUN_RADIUS : SUN_RADIUS;
+  const earthRadius = isSystemMode ? getPlanet('earth').displayRadius : EARTH_RADIUS;
+
+  const stars: { id: string; x: number; y: number; radius: number; type: StarType }[] = isBinaryMode
+    ? (['primary', 'secondary'] as const).map((id, index) => {
+        const star = binaryParticle(id);
+        return { id, x: star.x * binaryScale, y: star.y * binaryScale, radius: starDisplayRadius(star.mass), type: getStarType(starTypes[index]) };
+      })
+    : [{ id: 'sun', x: 0, y: 0, radius: sunRadius, type: getStarType('G') }];
+
+  // The screen is fixed to the stars, so Greenwich is drawn at its sidereal
+  // angle, which gains ~0.9856° per day on the Sun's direction.
+  const siderealTime = greenwichMeanSiderealTime(currentJulianDate);
+  const earthSpinAngle = isRotationEnabled ? equatorToEclipticLongitude(siderealTime) * RAD_TO_DEG : 0;
+  const sunDirectionAngle = Math.atan2(-earthY, -earthX) * RAD_TO_DEG;
+  const rotationReferenceAngle = rotationFrame === 'stars' ? 0 : sunDirectionAngle;
+  const earthRotationAngle = (((earthSpinAngle - rotationReferenceAngle) % 360) + 360) % 360;
   
-  const nightPathAngle = Math.atan2(earthY, earthX) * (180 / Math.PI);
+  const earthScreenAngle = Math.atan2(earthY, earthX) * RAD_TO_DEG;
 
-  const nightPath = `M ${-EARTH_RADIUS},0 A ${EARTH_RADIUS},${EARTH_RADIUS} 0 0 1 ${EARTH_RADIUS},0 Z`;
+  // The co-rotating frame turns the scene back by Earth's angle; text is
+  // counter-rotated about its anchor so it stays upright.
+  const frameAngle = isRotatingFrame && !isBinaryMode && isHeliocentric ? -earthScreenAngle : 0;
+  const upright = (x: number, y: number) => `rotate(${-frameAngle} ${x} ${y})`;
 
-  const orbitalEccentricity = useMemo(() => Math.sqrt(1 - Math.pow(ORBIT_RY / ORBIT_RX, 2)), []);
+  const [l1Distance, l2Distance] = [
+    1 - SUN_EARTH_MASS_RATIO - SUN_EARTH_LAGRANGE_POINTS[0].x,
+    SUN_EARTH_LAGRANGE_POINTS[1].x - (1 - SUN_EARTH_MASS_RATIO),
+  ].map(fraction => fraction * earth.radius * AU_KM);
 
-  const distanceFromSun = useMemo(() => {
-    const distanceInPixels = (ORBIT_RX * ORBIT_RY) / Math.sqrt(
-        Math.pow(ORBIT_RY * Math.cos(earthOrbitalAngle), 2) +
-        Math.pow(ORBIT_RX * Math.sin(earthOrbitalAngle), 2)
-    );
-    // Normalize to AU, where semi-major axis (ORBIT_RX) is ~1 AU
-    return distanceInPixels / ORBIT_RX;
-  }, [earthOrbitalAngle]);
+  // The planner works from mean distances and the ephemeris, whatever mode
+  // moves the planets on screen. The transfer is drawn for the next window.
+  const originElements = getPlanet(transferRoute.origin).elements;
+  const destinationElements = getPlanet(transferRoute.destination).elements;
+  const transfer = useMemo(
+    () => hohmannTransfer(originElements.semiMajorAxis[0], destinationElements.semiMajorAxis[0]),
+    [originElements, destinationElements]
+  );
+  const showTransfer = isPlannerOpen && !isBinaryMode && !isDeepTime;
+  const launchWindow = showTransfer ? nextLaunchWindow(originElements, destinationElements, transfer, currentJulianDate) : currentJulianDate;
+  const transferDrawing = useMemo(() => {
+    if (!showTransfer) return null;
+    const departureLongitude = heliocentricPosition(originElements, launchWindow).longitude;
+    const points = Array.from({ length: ORBIT_PATH_SEGMENTS / 2 + 1 }, (_, i) => {
+      return mapRadially(transferOrbitPoint(transfer, departureLongitude, (i / (ORBIT_PATH_SEGMENTS / 2)) * Math.PI), mapRadius);
+    });
+    return {
+      path: `M ${points.map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`).join(' L ')}`,
+      departure: points[0],
+      arrival: points[points.length - 1],
+    };
+  }, [showTransfer, originElements, launchWindow, transfer, mapRadius]);
+
+  // The porkchop plot is centred on the next Hohmann window, or while a
+  // trajectory is loaded, on the window nearest its departure so the plot
+  // doesn't move on once the clock passes that window.
+  const transferSynodicPeriod = synodicPeriod(originElements, destinationElements);
+  const porkchopWindow = Math.round(loadedTransfer
+    ? nextLaunchWindow(originElements, destinationElements, transfer, loadedTransfer.departureJulianDate - transferSynodicPeriod / 2)
+    : launchWindow);
+
+  // The loaded Lambert trajectory, sampled at equal times so the craft's
+  // position on any date can be read off by interpolation.
+  const trajectorySamples = useMemo(() => loadedTransfer && transferTrajectory(loadedTransfer, ORBIT_PATH_SEGMENTS), [loadedTransfer]);
+  const trajectoryDrawing = useMemo(() => {
+    if (!showTransfer || !loadedTransfer || !trajectorySamples) return null;
+    const points = trajectorySamples.map(point => mapRadially(point, mapRadius));
+    const progress = (currentJulianDate - loadedTransfer.departureJulianDate) / (loadedTransfer.arrivalJulianDate - loadedTransfer.departureJulianDate);
+    let craft: Vector2 | null = null;
+    if (progress >= 0 && progress <= 1) {
+      const index = Math.min(Math.floor(progress * ORBIT_PATH_SEGMENTS), ORBIT_PATH_SEGMENTS - 1);
+      const t = progress * ORBIT_PATH_SEGMENTS - index;
+      craft = { x: points[index].x + (points[index + 1].x - points[index].x) * t, y: points[index].y + (points[index + 1].y - points[index].y) * t };
+    }
+    return { path: `M ${points.map(({ x, y }) => `${x.toFixed(2)},${y.toFixed(2)}`).join(' L ')}`, craft };
+  }, [showTransfer, loadedTransfer, trajectorySamples, mapRadius, currentJulianDate]);
+
+  const moon = useMemo(() => moonState(currentJulianDate), [currentJulianDate]);
+  const sunToNode = sunNodeSeparation(moon);
+  const isEclipseSeason = sunToNode < SOLAR_ECLIPSE_LIMIT;
+
+  const eclipseYear = simulatedDate.getUTCFullYear();
+  const eclipses = useMemo(
+    () => eclipsesBetween(julianDate(new Date(Date.UTC(eclipseYear, 0, 1))), julianDate(new Date(Date.UTC(eclipseYear + 1, 0, 1)))),
+    [eclipseYear]
+  );
+
+  const selectedPlanet = getPlanet(selectedPlanetId);
+  // In spin–orbit mode the Moon and Mercury turn in step with their orbits
+  // rather than at a fixed rate, each in its chosen resonance.
+  const moonSpinAngle = resonantSpinAngle(getSpinOrbitBody('moon'), spinOrbitRatios.moon, currentJulianDate) * RAD_TO_DEG;
+  const mercurySpinAngle = resonantSpinAngle(getSpinOrbitBody('mercury'), spinOrbitRatios.mercury, currentJulianDate) * RAD_TO_DEG;
+  const spinOrbitFacing = spinOrbitBodyId === 'moon'
+    ? subPrimaryLongitude(moonSpinAngle * DEG_TO_RAD, moon.longitude)
+    : subPrimaryLongitude(mercurySpinAngle * DEG_TO_RAD, planetPositions.get('mercury')!.longitude);
+
+  const selectedPosition = planetPositions.get(selectedPlanetId)!;
+  const selectedRotationAngle = selectedPlanetId === 'earth'
+    ? earthRotationAngle
+    : selectedPlanetId === 'mercury' && isSpinOrbitOn
+      ? mercurySpinAngle
+      : isRotationEnabled ? rotationAngle(selectedPlanet, simulationTime) : 0;
+  // The Sun as seen from Earth, with the tilt in use (it varies in deep time).
+  const sun = solarCoordinates(currentJulianDate, axialTilt * DEG_TO_RAD);
+
+  // The Sun's perihelion measured from the equinox, for the seasonal maps.
+  const solarPerihelionLongitude = isDeepTime
+    ? forcing.perihelionLongitude
+    : longitudeOfDate(earth.longitudeOfPerihelion + Math.PI, currentJulianDate) * RAD_TO_DEG;
+
+  // Seasons follow the Sun's longitude from the model's Earth, so they stay
+  // right in N-body runs and deep time; there the screen's +x axis is
+  // already the equinox of the epoch.
+  const sunLongitude = isDeepTime
+    ? normalizeAngle(earth.longitude + Math.PI)
+    : longitudeOfDate(earth.longitude + Math.PI, currentJulianDate);
+  const season = seasonStatus(sunLongitude, simulatedDate, hemisphere, seasonDefinition);
+  const sunDeclination = Math.asin(Math.sin(axialTilt * DEG_TO_RAD) * Math.sin(sunLongitude)) * RAD_TO_DEG;
+
+  // Mercury's day follows the resonance it is held in, like its spin above.
+  const selectedRotationPeriod = selectedPlanetId === 'mercury' && isSpinOrbitOn
+    ? resonantRotationPeriod(getSpinOrbitBody('mercury').orbitalPeriod, spinOrbitRatios.mercury)
+    : selectedPlanet.rotationPeriod / 24;
+  const selectedSolarDay = solarDay(selectedRotationPeriod, siderealPeriod(selectedPlanet.elements));
 
 
   return (
@@ -117,57 +904,213 @@ export default function CelestialVisualizer() {
         </CardDescription>
       </CardHeader>
       <CardContent className="p-4 sm:p-6 grid grid-cols-1 lg:grid-cols-5 gap-6">
-        <div className="lg:col-span-3 aspect-square bg-background rounded-lg flex items-center justify-center p-4 border border-primary/10" data-ai-hint="space galaxy">
-          <svg width="100%" height="100%" viewBox="-300 -220 600 440" preserveAspectRatio="xMidYMid meet">
-            <defs>
-              <filter id="sun-glow" x="-50%" y="-50%" width="200%" height="200%">
-                <feGaussianBlur stdDeviation="15" result="coloredBlur" />
-                <feMerge>
-                  <feMergeNode in="coloredBlur" />
-                  <feMergeNode in="SourceGraphic" />
-                </feMerge>
-              </filter>
-            </defs>
-            
-            {/* Orbit Path */}
-            <ellipse cx="0" cy="0" rx={ORBIT_RX} ry={ORBIT_RY} fill="none" stroke="hsl(var(--accent))" strokeWidth="1" strokeDasharray="4 4" opacity="0.5" />
-
-            {/* Sun */}
-            <g>
-              <circle cx="0" cy="0" r={SUN_RADIUS} fill="url(#sun-gradient)" filter="url(#sun-glow)" />
-              <radialGradient id="sun-gradient">
-                <stop offset="0%" stopColor="#FFFBEB" />
-                <stop offset="60%" stopColor="#FDE68A" />
-                <stop offset="100%" stopColor="#F97316" />
-              </radialGradient>
-            </g>
-
-            {/* Earth */}
-            <g transform={`translate(${earthX}, ${earthY})`}>
-              <g transform={`rotate(${AXIAL_TILT})`}>
-                <g transform={`rotate(${earthRotationAngle})`}>
-                  <circle r={EARTH_RADIUS} fill="#3B82F6" />
-                  <line x1="0" y1={-EARTH_RADIUS-5} x2="0" y2={EARTH_RADIUS+5} stroke="white" strokeWidth="1.5" opacity="0.7" />
-                </g>
-                <g transform={`rotate(${-AXIAL_TILT})`}>
-                   <g transform={`rotate(${nightPathAngle})`}>
-                     <path d={nightPath} fill="black" opacity="0.45" />
-                   </g>
+        <div className="lg:col-span-3 flex flex-col gap-6">
+          <div className="aspect-square bg-background rounded-lg flex items-center justify-center p-4 border border-primary/10" data-ai-hint="space galaxy">
+            <div className="relative h-full w-full">
+              {showBelts && drawnBelts.length > 0 && (
+                <BeltCanvas belts={drawnBelts} julianDate={currentJulianDate} mapRadius={mapRadius} frameAngle={frameAngle} offset={viewOffset} />
+              )}
+              <svg className="relative" width="100%" height="100%" viewBox="-300 -300 600 600" preserveAspectRatio="xMidYMid meet">
+                <defs>
+                  <filter id="sun-glow" x="-50%" y="-50%" width="200%" height="200%">
+                    <feGaussianBlur stdDeviation="15" result="coloredBlur" />
+                    <feMerge>
+                      <feMergeNode in="coloredBlur" />
+                      <feMergeNode in="SourceGraphic" />
+                    </feMerge>
+                  </filter>
+                </defs>
+              
+                {/* In the co-rotating frame the whole scene turns with Earth, keeping it on the +x axis */}
+                <g transform={`rotate(${frameAngle}) translate(${-viewOffset.x}, ${-viewOffset.y})`}>
+                  {isBinaryMode ? (
+                    <>
+                      {/* Binary stars' orbits about the barycenter, and the planet's recent path */}
+                      {binaryStarOrbits.map(({ id, path }) => (
+                        <path key={id} d={path} fill="none" stroke="hsl(var(--accent))" strokeWidth="1" strokeDasharray="4 4" opacity="0.3" />
+                      ))}
+                      {binaryTrail && <path d={binaryTrail} fill="none" stroke="#60A5FA" strokeWidth="1" opacity="0.5" />}
+                      <g opacity="0.8">
+                        <line x1="-6" y1="0" x2="6" y2="0" stroke="hsl(var(--accent))" strokeWidth="1" />
+                        <line x1="0" y1="-6" x2="0" y2="6" stroke="hsl(var(--accent))" strokeWidth="1" />
+                        <text y="16" textAnchor="middle" fontSize="8" fill="hsl(var(--accent))">Barycenter</text>
+                      </g>
+                    </>
+                  ) : (
+                    <>
+                      {/* Orbit paths, with the Sun at the focus and the selected planet's perihelion/aphelion marked */}
+                      {drawnPlanets.map(({ planet, orbitPath }) => orbitPath && (
+                        <path
+                          key={planet.id}
+                          d={orbitPath}
+                          fill="none"
+                          stroke={isSystemMode ? planet.color : 'hsl(var(--accent))'}
+                          strokeWidth="1"
+                          strokeDasharray="4 4"
+                          opacity={planet.id === selectedPlanetId ? 0.6 : 0.3}
+                        />
+                      ))}
+                      {selectedOrbit?.perihelion && selectedOrbit.aphelion && (
+                        <g>
+                          <line x1={selectedOrbit.perihelion.x} y1={selectedOrbit.perihelion.y} x2={selectedOrbit.aphelion.x} y2={selectedOrbit.aphelion.y} stroke="hsl(var(--accent))" strokeWidth="0.5" opacity="0.25" />
+                          <circle cx={selectedOrbit.perihelion.x} cy={selectedOrbit.perihelion.y} r="3" fill="hsl(var(--accent))" opacity="0.7" />
+                          <circle cx={selectedOrbit.aphelion.x} cy={selectedOrbit.aphelion.y} r="3" fill="hsl(var(--accent))" opacity="0.7" />
+                        </g>
+                      )}
+
+                      {/* Earth's position at the upcoming equinoxes, solstices and apsides */}
+                      {showEventMarkers && !isDeepTime && eventMarkers.map(({ event, point, label }) => (
+                        <g key={event.id}>
+                          <circle cx={point.x} cy={point.y} r="2.5" fill="none" stroke={EVENT_MARKER_COLOR} strokeWidth="1.25" />
+                          <text x={label.x} y={label.y + 3} transform={upright(label.x, label.y + 3)} textAnchor="middle" fontSize="7" fill={EVENT_MARKER_COLOR} opacity="0.9">
+                            {EVENT_MARKER_LABELS[event.id]}
+                          </text>
+                        </g>
+                      ))}
+
+                      {showLagrangePoints && (
+                        <g transform={`rotate(${earthScreenAngle})`}>
+                          <LagrangeOverlay
+                            earthDistance={Math.round(Math.hypot(earthX, earthY) / 2) * 2}
+                            mapRadius={mapRadius}
+                            unmapRadius={unmapRadius}
+                            showContours={showPotentialContours}
+                            labelAngle={earthScreenAngle + frameAngle}
+                          />
+                        </g>
+                      )}
+
+                      {/* Transfer ellipse from the origin's orbit at the next launch window to the destination's */}
+                      {transferDrawing && (
+                        <g>
+                          <path d={transferDrawing.path} fill="none" stroke="#34D399" strokeWidth="1.25" opacity="0.8" />
+                          <circle cx={transferDrawing.departure.x} cy={transferDrawing.departure.y} r="3" fill="#34D399" />
+                          <circle cx={transferDrawing.arrival.x} cy={transferDrawing.arrival.y} r="3" fill="none" stroke="#34D399" strokeWidth="1.25" />
+                          <text x={transferDrawing.departure.x} y={transferDrawing.departure.y - 6} transform={upright(transferDrawing.departure.x, transferDrawing.departure.y - 6)} textAnchor="middle" fontSize="8" fill="#34D399">Launch</text>
+                          <text x={transferDrawing.arrival.x} y={transferDrawing.arrival.y - 6} transform={upright(transferDrawing.arrival.x, transferDrawing.arrival.y - 6)} textAnchor="middle" fontSize="8" fill="#34D399">Arrival</text>
+                        </g>
+                      )}
+
+                      {/* Lambert trajectory loaded from the porkchop plot, with the craft while it is in flight */}
+                      {trajectoryDrawing && (
+                        <g>
+                          <path d={trajectoryDrawing.path} fill="none" stroke="#FBBF24" strokeWidth="1.25" strokeDasharray="6 3" opacity="0.8" />
+                          {trajectoryDrawing.craft && (
+                            <g transform={`translate(${trajectoryDrawing.craft.x}, ${trajectoryDrawing.craft.y})`}>
+                              <polygon points="0,-4 3.5,3 -3.5,3" fill="#FBBF24" />
+                              <text y="-7" transform={upright(0, -7)} textAnchor="middle" fontSize="8" fill="#FBBF24">Craft</text>
+                            </g>
+                          )}
+                        </g>
+                      )}
+
+                      {/* Apparent paths around another body, or else the vernal equinox direction */}
+                      {originPlanet ? (
+                        <g transform={`translate(${viewOffset.x}, ${viewOffset.y})`}>
+                          <ApparentMotionOverlay
+                            origin={originPlanet.id}
+                            traces={apparentTraces}
+                            julianDate={currentJulianDate}
+                            screenPosition={apparentScreenPosition}
+                            labelledId={selectedPlanetId}
+                          />
+                        </g>
+                      ) : (
+                        <>
+                          <text x="290" y="-6" transform={upright(290, -6)} textAnchor="end" fontSize="14" fill="hsl(var(--accent))" opacity="0.6">♈︎</text>
+                          <line x1={sunRadius + 10} y1="0" x2="290" y2="0" stroke="hsl(var(--accent))" strokeWidth="0.5" strokeDasharray="2 6" opacity="0.3" />
+                        </>
+                      )}
+                    </>
+                  )}
+
+                  {/* Sun, or both stars in binary mode */}
+                  {stars.map(star => (
+                    <g key={star.id}>
+                      <circle cx={star.x} cy={star.y} r={star.radius} fill={`url(#star-gradient-${star.id})`} filter="url(#sun-glow)" />
+                      <radialGradient id={`star-gradient-${star.id}`}>
+                        <stop offset="0%" stopColor={star.type.gradient[0]} />
+                        <stop offset="60%" stopColor={star.type.gradient[1]} />
+                        <stop offset="100%" stopColor={star.type.gradient[2]} />
+                      </radialGradient>
+                    </g>
+                  ))}
+
+                  {isBinaryMode ? (
+                    <g transform={`translate(${binaryPlanet.x}, ${binaryPlanet.y})`}>
+                      <circle r="5" fill="#3B82F6" />
+                      <text y="15" textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))" opacity="0.7">Planet</text>
+                    </g>
+                  ) : (
+                    <>
+                      {/* Other planets (solar-system mode) */}
+                      {drawnPlanets.filter(({ planet }) => planet.id !== 'earth').map(({ planet, screen }) => {
+                        const isResonant = isSpinOrbitOn && planet.id === 'mercury';
+                        const spin = isResonant ? mercurySpinAngle : isRotationEnabled ? rotationAngle(planet, simulationTime) : 0;
+                        return <PlanetGlyph key={planet.id} planet={planet} screen={screen} spin={spin} showMeridian={isResonant} upright={upright} />;
+                      })}
+
+                      {drawnCustomBodies.map(({ body, orbitPath, screen }) => (
+                        <CustomBodyGlyph key={body.id} body={body} orbitPath={orbitPath} screen={screen} upright={upright} />
+                      ))}
+
+                      {drawnComets.map(({ comet, screen, orbitPath, tailAngle, tailLength }) => (
+                        <CometGlyph key={comet.id} comet={comet} orbitPath={orbitPath} screen={screen} tailAngle={tailAngle} tailLength={tailLength} upright={upright} />
+                      ))}
+
+                      <EarthMoonGlyph
+                        screen={{ x: earthX, y: earthY }}
+                        radius={earthRadius}
+                        axialTilt={axialTilt}
+                        spinAngle={earthSpinAngle}
+                        referenceAngle={rotationReferenceAngle}
+                        moon={moon}
+                        moonSpinAngle={isSpinOrbitOn ? moonSpinAngle : null}
+                        isEclipseSeason={isEclipseSeason}
+                        isSystemMode={isSystemMode}
+                        upright={upright}
+                      />
+                    </>
+                  )}
                 </g>
-              </g>
-            </g>
-          </svg>
+              </svg>
+            </div>
+          </div>
+
+          {/* Edge-on companion to the top-down view, where the tilt is nearly invisible */}
+          <div className="bg-background rounded-lg p-4 border border-primary/10 space-y-2">
+            <Label className="text-sm text-accent font-semibold flex items-center gap-2"><Sunrise size={16}/>SEASONS FROM THE SIDE</Label>
+            <SeasonsSideView
+              declination={sunDeclination}
+              obliquity={axialTilt}
+              latitude={observer.latitude}
+              onLatitudeChange={(latitude) => changeObserver({ latitude, longitude: observer.longitude }, 'custom')}
+            />
+          </div>
         </div>
 
         <div className="lg:col-span-2 flex flex-col justify-center gap-6 p-4 rounded-lg bg-card-foreground/5">
           <div className="grid grid-cols-2 gap-4 text-center">
             <div className="p-3 rounded-lg bg-primary/10">
-              <Label className="text-sm text-accent font-semibold flex items-center justify-center gap-2"><CalendarDays size={16}/>SIMULATED DATE</Label>
-              <p className="text-lg font-bold text-foreground/90 mt-1">{currentDate}</p>
+              <Label className="text-sm text-accent font-semibold flex items-center justify-center gap-2">
+                <CalendarDays size={16}/>{isDeepTime ? 'SIMULATED EPOCH' : 'SIMULATED DATE'}
+              </Label>
+              <p className="text-lg font-bold text-foreground/90 mt-1">{isDeepTime ? formatEpoch(deepTimeYears) : currentDate}</p>
             </div>
             <div className="p-3 rounded-lg bg-primary/10">
               <Label className="text-sm text-accent font-semibold flex items-center justify-center gap-2"><Orbit size={16}/>ORBITAL POSITION</Label>
-              <p className="text-lg font-bold text-foreground/90 mt-1">{getOrbitalStatus(dayOfYear)}</p>
+              <p className="text-lg font-bold text-foreground/90 mt-1">{season.event ?? season.season}</p>
+              <p className="text-xs text-foreground/60 font-mono">
+                {season.event ? `${season.season} · ` : ''}{hemisphere === 'north' ? 'N' : 'S'} · λ☉ {(sunLongitude * RAD_TO_DEG).toFixed(1)}°
+              </p>
+            </div>
+            <div className="col-span-2 p-3 rounded-lg bg-primary/10">
+              <Label className="text-sm text-accent font-semibold flex items-center justify-center gap-2"><Moon size={16}/>MOON PHASE</Label>
+              <div className="flex items-center justify-center gap-3 mt-1">
+                <MoonPhaseIcon moon={moon} />
+                <p className="text-lg font-bold text-foreground/90">{moon.phase}</p>
+                <p className="text-sm text-foreground/70 font-mono">{(moon.illumination * 100).toFixed(0)}% lit · {moon.age.toFixed(1)} d</p>
+              </div>
             </div>
           </div>
           
@@ -178,17 +1121,256 @@ export default function CelestialVisualizer() {
                 <Slider
                   id="speed-slider"
                   min={0}
-                  max={speedLevels.length - 1}
+                  max={(isDeepTime ? deepTimeSpeedLevels : speedLevels).length - 1}
                   step={1}
                   value={[speedLevel]}
                   onValueChange={(value) => setSpeedLevel(value[0])}
                   className="flex-1"
                   aria-label="Simulation speed"
                 />
-                <span className="text-sm font-medium text-accent w-24 text-center">{speedLabels[speedLevel]}</span>
+                <span className="text-sm font-medium text-accent w-24 text-center">{(isDeepTime ? deepTimeSpeedLabels : speedLabels)[speedLevel]}</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="date-input" className="flex items-center gap-2 text-foreground/80"><CalendarDays size={16}/>Jump to Date</Label>
+              <div className="flex items-center gap-4">
+                <Input
+                  id="date-input"
+                  type="date"
+                  value={jumpDate}
+                  onChange={(event) => setJumpDate(event.target.value)}
+                  className="flex-1"
+                />
+                <Button onClick={jumpToDate} variant="outline" className="w-24">Go</Button>
+              </div>
+            </div>
+
+            <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="event-markers-switch" className="flex items-center gap-2 text-foreground/80"><CalendarClock size={16}/> Next Events</Label>
+                <Switch
+                  id="event-markers-switch"
+                  checked={showEventMarkers}
+                  onCheckedChange={setShowEventMarkers}
+                  disabled={isDeepTime}
+                  aria-label="Toggle event markers on the orbit"
+                />
+              </div>
+              {!orbitEvents ? (
+                <p className="text-xs text-foreground/60">Event times come from the present-day orbit, so they are hidden in deep time.</p>
+              ) : (
+                <OrbitEventList
+                  events={orbitEvents.next}
+                  previous={orbitEvents.previous}
+                  currentJulianDate={currentJulianDate}
+                  onJump={jumpToEvent}
+                />
+              )}
+            </div>
+
+            <SeasonControls
+              hemisphere={hemisphere}
+              onHemisphereChange={setHemisphere}
+              definition={seasonDefinition}
+              onDefinitionChange={setSeasonDefinition}
+            />
+
+            <div className="space-y-2">
+              <Label htmlFor="eccentricity-slider" className="flex items-center gap-2 text-foreground/80"><Scaling size={16}/>Orbit Shape Exaggeration</Label>
+              <div className="flex items-center gap-4">
+                <Slider
+                  id="eccentricity-slider"
+                  min={MIN_EXAGGERATION}
+                  max={MAX_EXAGGERATION}
+                  step={1}
+                  value={[eccentricityExaggeration]}
+                  onValueChange={(value) => setEccentricityExaggeration(value[0])}
+                  className="flex-1"
+                  aria-label="Orbit shape exaggeration"
+                />
+                <span className="text-sm font-medium text-accent w-24 text-center">
+                  {eccentricityExaggeration === MIN_EXAGGERATION ? 'Real' : `${eccentricityExaggeration}×`}
+                </span>
               </div>
             </div>
 
+            <div className="flex items-center justify-between p-3 rounded-lg bg-primary/10">
+              <Label htmlFor="system-switch" className="flex items-center gap-2 text-foreground/80">
+                <Sun size={16}/> Full Solar System
+              </Label>
+              <Switch
+                id="system-switch"
+                checked={isSystemMode}
+                onCheckedChange={changeSystemMode}
+                aria-label="Toggle full solar-system mode"
+              />
+            </div>
+
+            <FrameOriginControls
+              value={frameOrigin}
+              onChange={changeFrameOrigin}
+              disabled={isBinaryMode}
+              origin={originPlanet}
+              traces={apparentTraces}
+              traceHalfSpan={TRACE_HALF_SPAN}
+            />
+
+            <CustomBodyList bodies={customBodies} onAdd={() => openBodyDialog()} onEdit={openBodyDialog} onRemove={removeCustomBody} />
+
+            <CometControls
+              selectedIds={cometIds}
+              onToggle={toggleComet}
+              shown={drawnComets}
+              currentJulianDate={currentJulianDate}
+              onJump={jumpToEvent}
+            />
+
+            <BeltControls
+              showMainBelt={showMainBelt}
+              onMainBeltChange={toggleMainBelt}
+              showKuiperBelt={showKuiperBelt}
+              onKuiperBeltChange={toggleKuiperBelt}
+              isJupiterSculpting={isJupiterSculpting}
+              onJupiterSculptingChange={setJupiterSculpting}
+              disabled={isBinaryMode}
+              populations={drawnBelts.map(({ population }) => population)}
+            />
+
+            <div className="space-y-3 p-3 rounded-lg bg-primary/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="binary-switch" className="flex items-center gap-2 text-foreground/80">
+                  <Sparkles size={16}/> Binary Star
+                </Label>
+                <Switch
+                  id="binary-switch"
+                  checked={isBinaryMode}
+                  onCheckedChange={toggleBinaryMode}
+                  disabled={isDeepTime}
+                  aria-label="Toggle binary-star mode"
+                />
+              </div>
+              {isBinaryMode && (
+                <BinaryStarControls
+                  config={binaryConfig}
+                  onConfigChange={updateBinaryConfig}
+                  starTypes={starTypes}
+                  onStarTypesChange={setStarTypes}
+                  fate={binaryRun.fate}
+                  elapsedDays={binaryRun.run.system.julianDate - binaryRun.run.startJulianDate}
+                />
+              )}
+            </div>
+
+            <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="lagrange-switch" className="flex items-center gap-2 text-foreground/80">
+                  <Crosshair size={16}/> Sun–Earth Lagrange Points
+                </Label>
+                <Switch
+                  id="lagrange-switch"
+                  checked={showLagrangePoints}
+                  onCheckedChange={setShowLagrangePoints}
+                  disabled={isBinaryMode}
+                  aria-label="Toggle Lagrange points"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="contours-switch" className="text-foreground/80">Effective potential contours</Label>
+                <Switch
+                  id="contours-switch"
+                  checked={showPotentialContours}
+                  onCheckedChange={setShowPotentialContours}
+                  disabled={!showLagrangePoints || isBinaryMode}
+                  aria-label="Toggle effective potential contours"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="rotating-frame-switch" className="text-foreground/80">Co-rotating frame (Earth fixed)</Label>
+                <Switch
+                  id="rotating-frame-switch"
+                  checked={isRotatingFrame}
+                  onCheckedChange={setRotatingFrame}
+                  disabled={isBinaryMode || !isHeliocentric}
+                  aria-label="Toggle co-rotating frame"
+                />
+              </div>
+              {showLagrangePoints && (
+                <p className="text-xs text-foreground/60">
+                  L1 and L2 lie {formatKilometres(l1Distance)} and {formatKilometres(l2Distance)} from Earth, so the view is magnified
+                  around Earth to show them. SOHO watches the Sun from L1; JWST keeps the Sun, Earth and Moon behind its shield at L2.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-3 p-3 rounded-lg bg-primary/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="planner-switch" className="flex items-center gap-2 text-foreground/80">
+                  <Rocket size={16}/> Mission Planner
+                </Label>
+                <Switch
+                  id="planner-switch"
+                  checked={isPlannerOpen}
+                  onCheckedChange={openPlanner}
+                  disabled={isBinaryMode || isDeepTime}
+                  aria-label="Toggle mission planner"
+                />
+              </div>
+              {showTransfer && (
+                <TransferPlanner
+                  origin={transferRoute.origin}
+                  destination={transferRoute.destination}
+                  onRouteChange={changeTransferRoute}
+                  transfer={transfer}
+                  currentPhaseAngle={currentPhaseAngle(originElements, destinationElements, currentJulianDate)}
+                  launchWindow={launchWindow}
+                  currentJulianDate={currentJulianDate}
+                  onJump={jumpToEvent}
+                />
+              )}
+            </div>
+
+            <div className="flex items-center justify-between p-3 rounded-lg bg-primary/10">
+              <Label htmlFor="deep-time-switch" className="flex items-center gap-2 text-foreground/80">
+                <Hourglass size={16}/> Deep Time (Milankovitch)
+              </Label>
+              <Switch
+                id="deep-time-switch"
+                checked={isDeepTime}
+                onCheckedChange={toggleDeepTime}
+                disabled={isNBodyMode || isBinaryMode}
+                aria-label="Toggle deep-time mode"
+              />
+            </div>
+
+            <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="n-body-switch" className="flex items-center gap-2 text-foreground/80">
+                  <Atom size={16}/> N-Body Gravity
+                </Label>
+                <Switch
+                  id="n-body-switch"
+                  checked={isNBodyMode}
+                  onCheckedChange={toggleNBodyMode}
+                  disabled={isDeepTime}
+                  aria-label="Toggle N-body gravity mode"
+                />
+              </div>
+              {isNBodyMode && (
+                <NBodyControls
+                  integratorId={integratorId}
+                  onIntegratorChange={selectIntegrator}
+                  stepSize={stepSize}
+                  onStepSizeChange={setStepSize}
+                  tolerance={tolerance}
+                  onToleranceChange={setTolerance}
+                  planetName={selectedPlanet.name}
+                  onKick={kickSelectedPlanet}
+                  onReset={() => resetNBodyRun()}
+                />
+              )}
+            </div>
+
             <div className="flex items-center justify-between p-3 rounded-lg bg-primary/10">
               <Label htmlFor="rotation-switch" className="flex items-center gap-2 text-foreground/80">
                 <RotateCw size={16}/> Earth's Rotation
@@ -200,8 +1382,62 @@ export default function CelestialVisualizer() {
                 aria-label="Toggle Earth's rotation"
               />
             </div>
+
+            <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+              <Label className="text-foreground/80">Measure Rotation Against</Label>
+              <RadioGroup
+                value={rotationFrame}
+                onValueChange={(value) => setRotationFrame(value as RotationFrame)}
+                className="flex gap-6"
+                aria-label="Rotation reference frame"
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="stars" id="frame-stars" />
+                  <Label htmlFor="frame-stars">Stars frame</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="sun" id="frame-sun" />
+                  <Label htmlFor="frame-sun">Sun frame</Label>
+                </div>
+              </RadioGroup>
+              <p className="text-xs text-foreground/60">
+                The red marker is the Greenwich meridian. It turns 360.99° a day against the stars but only 360° against the Sun.
+              </p>
+            </div>
+
+            <div className="space-y-3 p-3 rounded-lg bg-primary/10">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="spin-orbit-switch" className="flex items-center gap-2 text-foreground/80">
+                  <Repeat size={16}/> Spin–Orbit Resonance
+                </Label>
+                <Switch
+                  id="spin-orbit-switch"
+                  checked={isSpinOrbitOn}
+                  onCheckedChange={toggleSpinOrbit}
+                  disabled={isBinaryMode}
+                  aria-label="Toggle spin–orbit resonance"
+                />
+              </div>
+              {isSpinOrbitOn && (
+                <SpinOrbitControls
+                  bodyId={spinOrbitBodyId}
+                  onBodyChange={selectSpinOrbitBody}
+                  ratio={spinOrbitRatios[spinOrbitBodyId]}
+                  onRatioChange={(ratio) => setSpinOrbitRatios({ ...spinOrbitRatios, [spinOrbitBodyId]: ratio })}
+                  subPrimaryLongitude={spinOrbitFacing}
+                />
+              )}
+            </div>
           </div>
           
+          <CustomBodyDialog
+            open={isBodyDialogOpen}
+            onOpenChange={setBodyDialogOpen}
+            initialValues={bodyDialogValues}
+            isEditing={editingBodyId !== null}
+            onSave={saveCustomBody}
+          />
+
           <Button onClick={() => setPaused(!isPaused)} variant="secondary" size="lg" className="w-full bg-accent text-accent-foreground hover:bg-accent/90">
             {isPaused ? <Play className="mr-2 h-5 w-5"/> : <Pause className="mr-2 h-5 w-5"/>}
             {isPaused ? 'Resume Simulation' : 'Pause Simulation'}
@@ -218,62 +1454,131 @@ export default function CelestialVisualizer() {
           <AccordionItem value="item-1">
             <AccordionTrigger className="hover:no-underline">Key Parameters & Constants</AccordionTrigger>
             <AccordionContent>
-              <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm p-2">
-                  <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Axial Tilt</p>
-                      <p className="font-mono text-base">{AXIAL_TILT.toFixed(1)}°</p>
-                  </div>
-                  <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Orbital Period</p>
-                      <p className="font-mono text-base">{DAYS_IN_YEAR} days</p>
-                  </div>
-                   <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Orbital Eccentricity (e)</p>
-                      <p className="font-mono text-base">{orbitalEccentricity.toFixed(4)}</p>
-                  </div>
-              </div>
+              <KeyParametersPanel axialTilt={axialTilt} eccentricity={earth.eccentricity} />
             </AccordionContent>
           </AccordionItem>
           <AccordionItem value="item-2">
             <AccordionTrigger className="hover:no-underline">Live Simulation Data</AccordionTrigger>
              <AccordionContent>
-              <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm p-2">
-                  <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Day of Year</p>
-                      <p className="font-mono text-base">{dayOfYear.toFixed(2)}</p>
-                  </div>
-                  <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Orbital Angle</p>
-                      <p className="font-mono text-base">{(earthOrbitalAngle * 180 / Math.PI).toFixed(2)}°</p>
-                  </div>
-                   <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Distance from Sun</p>
-                      <p className="font-mono text-base">{distanceFromSun.toFixed(4)} AU</p>
-                  </div>
-                   <div className="p-3 rounded-lg bg-background/50">
-                      <p className="font-semibold text-accent/80">Earth's Rotation</p>
-                      <p className="font-mono text-base">{earthRotationAngle.toFixed(2)}°</p>
-                  </div>
+              <LiveDataPanel
+                planetId={selectedPlanetId}
+                onPlanetChange={setSelectedPlanetId}
+                dayOfYear={dayOfYear}
+                position={selectedPosition}
+                rotationAngle={selectedRotationAngle}
+                rotationFrame={rotationFrame}
+                equationOfTime={sun.equationOfTime}
+                solarDay={selectedSolarDay}
+                siderealTime={siderealTime}
+              />
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-9">
+            <AccordionTrigger className="hover:no-underline">Equation of Time &amp; Analemma</AccordionTrigger>
+            <AccordionContent>
+              <div className="space-y-2 text-sm p-2">
+                <p className="text-foreground/80">
+                  Photographing the Sun at the same clock time every day traces this figure-eight. Its height is the Sun's
+                  declination, set by the {axialTilt.toFixed(1)}° tilt; its width is the equation of time. Earth moving fastest near
+                  perihelion makes the loops unequal, and the tilt alone would make two equal loops. Today: {formatEquationOfTime(sun.equationOfTime)},
+                  declination {(sun.declination * RAD_TO_DEG).toFixed(2)}°.
+                </p>
+                <AnalemmaChart
+                  year={simulatedDate.getUTCFullYear()}
+                  obliquity={Math.round(axialTilt * 100) / 100}
+                  equationOfTime={sun.equationOfTime}
+                  declination={sun.declination * RAD_TO_DEG}
+                />
               </div>
             </AccordionContent>
           </AccordionItem>
+          <AccordionItem value="item-10">
+            <AccordionTrigger className="hover:no-underline">Observer: Sunrise &amp; Sunset</AccordionTrigger>
+            <AccordionContent>
+              <ObserverPanel
+                observer={observer}
+                cityId={observerCityId}
+                onChange={changeObserver}
+                julianDate={currentJulianDate}
+                obliquity={Math.round(axialTilt * 100) / 100}
+                year={simulatedDate.getUTCFullYear()}
+                dayOfYear={dayOfYear}
+              />
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-11">
+            <AccordionTrigger className="hover:no-underline">Insolation by Latitude</AccordionTrigger>
+            <AccordionContent>
+              <InsolationPanel
+                obliquity={Math.round(axialTilt * 100) / 100}
+                eccentricity={Math.round(earth.eccentricity * 10000) / 10000}
+                perihelionLongitude={Math.round(solarPerihelionLongitude * 10) / 10}
+                year={simulatedDate.getUTCFullYear()}
+                dayOfYear={dayOfYear}
+              />
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-6">
+            <AccordionTrigger className="hover:no-underline">N-Body Diagnostics</AccordionTrigger>
+            <AccordionContent>
+              {isNBodyMode ? (
+                <NBodyDiagnosticsPanel integratorId={integratorId} stepSize={stepSize} tolerance={tolerance} samples={nBodyRun.samples} />
+              ) : (
+                <p className="text-sm text-foreground/70 p-2">Turn on N-Body Gravity to see how well the integrator conserves energy and angular momentum.</p>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-7">
+            <AccordionTrigger className="hover:no-underline">Porkchop Plot</AccordionTrigger>
+            <AccordionContent>
+              {showTransfer ? (
+                <PorkchopPanel
+                  origin={transferRoute.origin}
+                  destination={transferRoute.destination}
+                  launchWindow={porkchopWindow}
+                  hohmannTime={transfer.transferTime}
+                  synodicPeriod={transferSynodicPeriod}
+                  loaded={loadedTransfer}
+                  onLoad={loadTransfer}
+                  onClear={() => setLoadedTransfer(null)}
+                />
+              ) : (
+                <p className="text-sm text-foreground/70 p-2">Turn on the Mission Planner to plot launch opportunities for its route.</p>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-8">
+            <AccordionTrigger className="hover:no-underline">Belt Structure</AccordionTrigger>
+            <AccordionContent>
+              {sculptedMainBelt || kuiperBelt ? (
+                <BeltStructurePanel mainBelt={sculptedMainBelt} kuiperBelt={kuiperBelt} isJupiterSculpting={isJupiterSculpting} />
+              ) : (
+                <p className="text-sm text-foreground/70 p-2">Turn on a small-body belt to see how its orbits are distributed.</p>
+              )}
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-4">
+            <AccordionTrigger className="hover:no-underline">Eclipses in {eclipseYear}</AccordionTrigger>
+            <AccordionContent>
+              <EclipseList
+                year={eclipseYear}
+                eclipses={eclipses}
+                currentJulianDate={currentJulianDate}
+                sunNodeSeparation={sunToNode}
+                onJump={jumpToEvent}
+              />
+            </AccordionContent>
+          </AccordionItem>
+          <AccordionItem value="item-5">
+            <AccordionTrigger className="hover:no-underline">Milankovitch Cycles</AccordionTrigger>
+            <AccordionContent>
+              <MilankovitchPanel forcing={forcing} />
+            </AccordionContent>
+          </AccordionItem>
           <AccordionItem value="item-3">
             <AccordionTrigger className="hover:no-underline">Kepler's Laws of Planetary Motion</AccordionTrigger>
             <AccordionContent>
-              <div className="space-y-4 text-sm text-foreground/80 p-2">
-                <div>
-                  <h4 className="font-semibold text-foreground">1. The Law of Ellipses</h4>
-                  <p className="mt-1">The orbit of a planet is an ellipse with the Sun at one of the two foci. This simulation models Earth's orbit as a static ellipse.</p>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-foreground">2. The Law of Equal Areas</h4>
-                  <p className="mt-1">A line segment joining a planet and the Sun sweeps out equal areas during equal intervals of time. For simplicity, this simulation uses a constant angular speed. In reality, Earth moves fastest when closest to the Sun (perihelion) and slowest when farthest away (aphelion).</p>
-                </div>
-                <div>
-                  <h4 className="font-semibold text-foreground">3. The Law of Harmonies</h4>
-                  <p className="mt-1">The square of the orbital period (T) of a planet is directly proportional to the cube of the semi-major axis (a) of its orbit (T² ∝ a³). This law relates the orbital periods and distances of planets in the solar system.</p>
-                </div>
-              </div>
+              <KeplerLawsPanel />
             </AccordionContent>
           </AccordionItem>
         </Accordion>
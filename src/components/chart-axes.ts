@@ -0,0 +1,22 @@
+// Axis pieces shared by the recharts plots.
+
+/** The part of a recharts axis that custom layers need to place things. */
+export interface AxisScale {
+  scale: (value: number) => number;
+}
+
+/** Props recharts hands to Customized components. */
+export interface CustomizedProps {
+  xAxisMap?: Record<string, AxisScale>;
+  yAxisMap?: Record<string, AxisScale>;
+}
+
+// Day of a common year on which each month begins, counted from 0, for
+// axes that run through one year.
+export const MONTH_STARTS = [0, 31, 59, 90, 120, 151, 181, 212, 243, 273, 304, 334];
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/** Tick label for a day-of-year axis ticked at MONTH_STARTS. */
+export function formatMonthTick(day: number): string {
+  return MONTH_LABELS[MONTH_STARTS.indexOf(day)] ?? '';
+}
@@ -0,0 +1,51 @@
+import { Telescope } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { COMETS, isBound, nearestPerihelion, type Comet, type CometId, type CometPosition } from '@/lib/comets';
+
+interface CometControlsProps {
+  selectedIds: CometId[];
+  onToggle: (id: CometId) => void;
+  shown: { comet: Comet; position: CometPosition }[];
+  currentJulianDate: number;
+  onJump: (julianDate: number) => void;
+}
+
+export function CometControls({ selectedIds, onToggle, shown, currentJulianDate, onJump }: CometControlsProps) {
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+      <Label className="flex items-center gap-2 text-foreground/80"><Telescope size={16}/> Comets &amp; Interstellar Objects</Label>
+      <div className="flex flex-wrap gap-2">
+        {COMETS.map(comet => (
+          <Button
+            key={comet.id}
+            size="sm"
+            variant={selectedIds.includes(comet.id) ? 'secondary' : 'outline'}
+            onClick={() => onToggle(comet.id)}
+            aria-pressed={selectedIds.includes(comet.id)}
+          >
+            {comet.name}
+          </Button>
+        ))}
+      </div>
+      {shown.map(({ comet, position }) => (
+        <div key={comet.id} className="flex items-center gap-2 text-sm">
+          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: comet.color }} />
+          <span className="flex-1 truncate">{comet.name}</span>
+          <span className="font-mono text-xs text-foreground/60">
+            e {comet.eccentricity.toFixed(3)} · {isBound(comet) ? 'bound' : 'unbound'} · {position.radius.toFixed(2)} AU
+          </span>
+          <Button size="sm" variant="ghost" className="h-7" onClick={() => onJump(nearestPerihelion(comet, currentJulianDate))}>
+            Perihelion
+          </Button>
+        </div>
+      ))}
+      {selectedIds.length > 0 && (
+        <p className="text-xs text-foreground/60">
+          Orbits with e &lt; 1 are closed ellipses; at e = 1 (parabola) or above (hyperbola) the body passes the Sun once and
+          escapes. Tails point away from the Sun and grow as the comet nears perihelion.
+        </p>
+      )}
+    </div>
+  );
+}
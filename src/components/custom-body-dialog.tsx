@@ -0,0 +1,147 @@
+"use client";
+
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import type { CustomBodyParameters } from '@/lib/custom-bodies';
+
+const angle = (label: string, max: number) =>
+  z.coerce.number({ invalid_type_error: `${label} must be a number` }).min(0, `${label} must be at least 0°`).max(max, `${label} must be at most ${max}°`);
+
+const customBodySchema = z.object({
+  name: z.string().trim().min(1, 'Give the body a name').max(24, 'Keep the name under 24 characters'),
+  semiMajorAxis: z.coerce.number({ invalid_type_error: 'Semi-major axis must be a number' })
+    .min(0.05, 'Semi-major axis must be at least 0.05 AU')
+    .max(100, 'Semi-major axis must be at most 100 AU'),
+  eccentricity: z.coerce.number({ invalid_type_error: 'Eccentricity must be a number' })
+    .min(0, 'Eccentricity must be at least 0')
+    .max(0.99, 'Eccentricity must be below 1 for a closed orbit'),
+  inclination: angle('Inclination', 180),
+  longitudeOfAscendingNode: angle('Ascending node', 360),
+  argumentOfPeriapsis: angle('Argument of periapsis', 360),
+  meanAnomaly: angle('Mean anomaly', 360),
+  radius: z.coerce.number({ invalid_type_error: 'Radius must be a number' })
+    .min(1, 'Radius must be at least 1 km')
+    .max(200000, 'Radius must be at most 200,000 km'),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Pick a color'),
+}) satisfies z.ZodType<CustomBodyParameters>;
+
+type CustomBodyFormValues = z.infer<typeof customBodySchema>;
+
+export const DEFAULT_CUSTOM_BODY: CustomBodyParameters = {
+  name: 'New body',
+  semiMajorAxis: 2.5,
+  eccentricity: 0.1,
+  inclination: 0,
+  longitudeOfAscendingNode: 0,
+  argumentOfPeriapsis: 0,
+  meanAnomaly: 0,
+  radius: 500,
+  color: '#F472B6',
+};
+
+const NUMBER_FIELDS: { name: Exclude<keyof CustomBodyFormValues, 'name' | 'color'>; label: string; unit?: string; step: string }[] = [
+  { name: 'semiMajorAxis', label: 'Semi-major axis (a)', unit: 'AU', step: '0.01' },
+  { name: 'eccentricity', label: 'Eccentricity (e)', step: '0.01' },
+  { name: 'inclination', label: 'Inclination (i)', unit: '°', step: '0.1' },
+  { name: 'longitudeOfAscendingNode', label: 'Ascending node (Ω)', unit: '°', step: '0.1' },
+  { name: 'argumentOfPeriapsis', label: 'Argument of periapsis (ω)', unit: '°', step: '0.1' },
+  { name: 'meanAnomaly', label: 'Mean anomaly (M₀)', unit: '°', step: '0.1' },
+  { name: 'radius', label: 'Radius', unit: 'km', step: '1' },
+];
+
+interface CustomBodyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialValues: CustomBodyParameters;
+  isEditing: boolean;
+  onSave: (values: CustomBodyParameters) => void;
+}
+
+export function CustomBodyDialog({ open, onOpenChange, initialValues, isEditing, onSave }: CustomBodyDialogProps) {
+  const form = useForm<CustomBodyFormValues>({
+    resolver: zodResolver(customBodySchema),
+    defaultValues: initialValues,
+  });
+
+  // Each time the dialog opens it starts from the body being edited (or the defaults).
+  useEffect(() => {
+    if (open) form.reset(initialValues);
+  }, [open, initialValues, form]);
+
+  const submit = (values: CustomBodyFormValues) => {
+    onSave(values);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit Body' : 'Add Body'}</DialogTitle>
+          <DialogDescription>
+            Orbital elements relative to the Sun and the J2000 ecliptic. The mean anomaly applies at the current simulated date.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="color"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Color</FormLabel>
+                    <FormControl>
+                      <Input type="color" className="p-1" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {NUMBER_FIELDS.map(({ name, label, unit, step }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input type="number" step={step} {...field} />
+                      </FormControl>
+                      {unit && <FormDescription>{unit}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+              <Button type="submit">{isEditing ? 'Save Changes' : 'Add Body'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,37 @@
+import { Orbit, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import type { CustomBody } from '@/lib/custom-bodies';
+
+interface CustomBodyListProps {
+  bodies: CustomBody[];
+  onAdd: () => void;
+  onEdit: (body: CustomBody) => void;
+  onRemove: (id: string) => void;
+}
+
+export function CustomBodyList({ bodies, onAdd, onEdit, onRemove }: CustomBodyListProps) {
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2 text-foreground/80"><Orbit size={16}/> Custom Bodies</Label>
+        <Button size="sm" variant="outline" onClick={onAdd}>
+          <Plus className="mr-1 h-4 w-4"/> Add Body
+        </Button>
+      </div>
+      {bodies.map(body => (
+        <div key={body.id} className="flex items-center gap-2 text-sm">
+          <span className="h-3 w-3 rounded-full" style={{ backgroundColor: body.color }} />
+          <span className="flex-1 truncate">{body.name}</span>
+          <span className="font-mono text-xs text-foreground/60">a {body.semiMajorAxis} AU · e {body.eccentricity}</span>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => onEdit(body)} aria-label={`Edit ${body.name}`}>
+            <Pencil className="h-4 w-4"/>
+          </Button>
+          <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => onRemove(body.id)} aria-label={`Remove ${body.name}`}>
+            <Trash2 className="h-4 w-4"/>
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useMemo } from 'react';
+import { Area, AreaChart, CartesianGrid, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { MONTH_STARTS, formatMonthTick } from '@/components/chart-axes';
+import { julianDate } from '@/lib/ephemeris';
+import { DEG_TO_RAD } from '@/lib/orbital-mechanics';
+import { sunEvents, type HorizonCrossing } from '@/lib/observer';
+
+interface DayLengthChartProps {
+  year: number;
+  latitude: number; // degrees
+  longitude: number; // degrees
+  obliquity: number; // degrees
+  dayOfYear: number;
+}
+
+const chartConfig = {
+  twilight: { label: 'Civil dawn to dusk (h)', color: 'hsl(var(--chart-2))' },
+  dayLength: { label: 'Sunrise to sunset (h)', color: 'hsl(var(--chart-1))' },
+} satisfies ChartConfig;
+
+function hoursBetween({ rise, set, polar }: HorizonCrossing): number {
+  return rise !== null && set !== null ? (set - rise) * 24 : polar === 'day' ? 24 : 0;
+}
+
+export function DayLengthChart({ year, latitude, longitude, obliquity, dayOfYear }: DayLengthChartProps) {
+  const data = useMemo(() => {
+    const start = julianDate(new Date(Date.UTC(year, 0, 1, 12)));
+    const days = Math.round(julianDate(new Date(Date.UTC(year + 1, 0, 1, 12))) - start);
+    return Array.from({ length: days }, (_, day) => {
+      const events = sunEvents(start + day, { latitude, longitude }, obliquity * DEG_TO_RAD);
+      return { day, dayLength: events.dayLength, twilight: hoursBetween(events.crossings.civil) };
+    });
+  }, [year, latitude, longitude, obliquity]);
+
+  const today = data[Math.min(data.length - 1, Math.floor(dayOfYear))];
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+      <AreaChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="day"
+          type="number"
+          domain={[0, data.length - 1]}
+          ticks={MONTH_STARTS}
+          tickFormatter={formatMonthTick}
+        />
+        <YAxis width={32} domain={[0, 24]} ticks={[0, 6, 12, 18, 24]} />
+        <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `Day ${payload[0]?.payload.day + 1}`} />} />
+        <Area dataKey="twilight" type="monotone" stroke="var(--color-twilight)" fill="var(--color-twilight)" fillOpacity={0.15} strokeWidth={1} isAnimationActive={false} />
+        <Area dataKey="dayLength" type="monotone" stroke="var(--color-dayLength)" fill="var(--color-dayLength)" fillOpacity={0.3} strokeWidth={1.5} isAnimationActive={false} />
+        <ReferenceLine y={12} stroke="hsl(var(--foreground))" strokeOpacity={0.3} strokeDasharray="3 3" />
+        <ReferenceLine x={today.day} stroke="hsl(var(--accent))" strokeDasharray="3 3" />
+        <ReferenceDot x={today.day} y={today.dayLength} r={4} fill="hsl(var(--accent))" stroke="hsl(var(--background))" strokeWidth={1.5} />
+      </AreaChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,83 @@
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { cn } from '@/lib/utils';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { SOLAR_ECLIPSE_LIMIT, type Eclipse } from '@/lib/eclipses';
+
+interface EclipseListProps {
+  year: number;
+  eclipses: Eclipse[];
+  currentJulianDate: number;
+  sunNodeSeparation: number; // radians
+  onJump: (julianDate: number) => void;
+}
+
+const TYPE_LABELS: Record<Eclipse['type'], string> = {
+  total: 'Total',
+  annular: 'Annular',
+  hybrid: 'Hybrid',
+  partial: 'Partial',
+  penumbral: 'Penumbral',
+};
+
+function formatEclipseDate(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+}
+
+export function EclipseList({ year, eclipses, currentJulianDate, sunNodeSeparation, onJump }: EclipseListProps) {
+  const isEclipseSeason = sunNodeSeparation < SOLAR_ECLIPSE_LIMIT;
+
+  return (
+    <div className="space-y-4 text-sm p-2">
+      <p className="text-foreground/80">
+        The Moon's orbit is tilted 5.1° to Earth's, so at most new and full moons it passes above or below the Sun–Earth line.
+        Eclipses can only happen when the Sun lies near the line of nodes, where the two orbits cross. That happens about every
+        173 days, in an <span className="font-semibold text-foreground">eclipse season</span>.
+      </p>
+      <div className={cn('p-3 rounded-lg bg-background/50', isEclipseSeason && 'ring-1 ring-accent')}>
+        <p className="font-semibold text-accent/80">Sun–Node Separation</p>
+        <p className="font-mono text-base">
+          {(sunNodeSeparation * RAD_TO_DEG).toFixed(1)}° {isEclipseSeason ? '· eclipse season' : ''}
+        </p>
+      </div>
+      {eclipses.length === 0 ? (
+        <p className="text-foreground/70">No eclipses found in {year}.</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Eclipse</TableHead>
+              <TableHead className="text-right">Magnitude</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {eclipses.map(eclipse => (
+              <TableRow key={eclipse.julianDate} className={cn(eclipse.julianDate < currentJulianDate && 'opacity-60')}>
+                <TableCell className="font-mono">{formatEclipseDate(eclipse.julianDate)}</TableCell>
+                <TableCell>
+                  {TYPE_LABELS[eclipse.type]} {eclipse.kind === 'solar' ? 'Solar' : 'Lunar'}
+                  <span className="text-foreground/60"> · {eclipse.node} node</span>
+                </TableCell>
+                <TableCell className="text-right font-mono">{eclipse.magnitude.toFixed(3)}</TableCell>
+                <TableCell className="text-right">
+                  <Button size="sm" variant="outline" onClick={() => onJump(eclipse.julianDate)}>Jump to</Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
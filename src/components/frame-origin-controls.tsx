@@ -0,0 +1,61 @@
+import { LocateFixed } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { ApparentTrace } from '@/components/apparent-motion-overlay';
+import type { FrameOriginId } from '@/lib/apparent-motion';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import { PLANETS, type PlanetDefinition } from '@/lib/solar-system';
+
+interface FrameOriginControlsProps {
+  value: FrameOriginId;
+  onChange: (id: FrameOriginId) => void;
+  disabled: boolean;
+  origin: PlanetDefinition | null; // the body the view follows, if not the Sun
+  traces: ApparentTrace[];
+  traceHalfSpan: number; // days either side of the date the paths cover
+}
+
+function formatDate(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toISOString().slice(0, 10);
+}
+
+export function FrameOriginControls({ value, onChange, disabled, origin, traces, traceHalfSpan }: FrameOriginControlsProps) {
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+      <div className="flex items-center justify-between gap-2">
+        <Label className="flex items-center gap-2 text-foreground/80"><LocateFixed size={16}/> Frame Origin</Label>
+        <Select value={value} onValueChange={(id) => onChange(id as FrameOriginId)} disabled={disabled}>
+          <SelectTrigger className="w-44 h-8" aria-label="Frame origin">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="sun">Sun (heliocentric)</SelectItem>
+            {PLANETS.map(planet => (
+              <SelectItem key={planet.id} value={planet.id}>{planet.name}{planet.id === 'earth' ? ' (geocentric)' : ''}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {origin && (
+        <>
+          <p className="text-xs text-foreground/60">
+            The scene follows {origin.name}, with everyone's paths over ±{traceHalfSpan} days as seen from it and
+            ticks on the outer ring at each body's ecliptic longitude against the stars. The paths keep true directions
+            but compressed distances, so they can miss the bodies drawn on the scene a little. Where {origin.name}
+            overtakes a planet, or is overtaken,
+            the planet appears to loop backwards (red) between its retrograde (R) and direct (D) stations. Stations are
+            dated for the planet selected under Live Data.
+          </p>
+          <div className="space-y-1 font-mono text-xs">
+            {traces.filter(trace => trace.retrograde.length > 0).map(trace => (
+              <p key={trace.id}>
+                <span className="font-sans font-semibold" style={{ color: trace.color }}>{trace.name}</span>{' '}
+                {trace.retrograde.map(period => `${formatDate(period.start)} → ${formatDate(period.end)}`).join(' · ')}
+              </p>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+"use client";
+
+import { useMemo } from 'react';
+import { CartesianGrid, Customized, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { MONTH_STARTS, formatMonthTick, type CustomizedProps } from '@/components/chart-axes';
+import { julianDate } from '@/lib/ephemeris';
+import { DEG_TO_RAD } from '@/lib/orbital-mechanics';
+import { insolationGrid, type InsolationGrid } from '@/lib/insolation';
+
+interface InsolationHeatmapProps {
+  year: number;
+  obliquity: number; // degrees
+  eccentricity: number;
+  perihelionLongitude: number; // degrees, the Sun's perihelion from the equinox
+  dayOfYear: number;
+}
+
+const chartConfig = {
+  subsolar: { label: 'Subsolar latitude', color: 'hsl(var(--foreground))' },
+} satisfies ChartConfig;
+
+// Colour stops from no sunlight to the map's maximum.
+const HEAT_STOPS: [number, number, number][] = [
+  [12, 7, 40],
+  [86, 18, 110],
+  [170, 45, 90],
+  [236, 110, 40],
+  [252, 210, 80],
+  [255, 255, 220],
+];
+const HEAT_GRADIENT = `linear-gradient(to right, ${HEAT_STOPS.map(([r, g, b]) => `rgb(${r}, ${g}, ${b})`).join(', ')})`;
+
+function heatColor(fraction: number): [number, number, number] {
+  const position = Math.min(Math.max(fraction, 0), 1) * (HEAT_STOPS.length - 1);
+  const index = Math.min(Math.floor(position), HEAT_STOPS.length - 2);
+  const t = position - index;
+  const [a, b] = [HEAT_STOPS[index], HEAT_STOPS[index + 1]];
+  return [0, 1, 2].map(channel => Math.round(a[channel] + (b[channel] - a[channel]) * t)) as [number, number, number];
+}
+
+// One pixel per grid cell, scaled up by the browser; there is no canvas on
+// the server, so the image only appears once mounted.
+function heatmapImage({ days, latitudes, values, max }: InsolationGrid): string | null {
+  if (typeof document === 'undefined') return null;
+  const canvas = document.createElement('canvas');
+  canvas.width = days;
+  canvas.height = latitudes.length;
+  const context = canvas.getContext('2d');
+  if (!context) return null;
+  const image = context.createImageData(days, latitudes.length);
+  values.forEach((value, index) => {
+    const [r, g, b] = heatColor(value / max);
+    image.data.set([r, g, b, 255], index * 4);
+  });
+  context.putImageData(image, 0, 0);
+  return canvas.toDataURL();
+}
+
+export function InsolationHeatmap({
+  year,
+  obliquity,
+  eccentricity,
+  perihelionLongitude,
+  dayOfYear,
+}: InsolationHeatmapProps) {
+  const grid = useMemo(() => {
+    const start = julianDate(new Date(Date.UTC(year, 0, 1, 12)));
+    const days = Math.round(julianDate(new Date(Date.UTC(year + 1, 0, 1, 12))) - start);
+    return insolationGrid(
+      { obliquity: obliquity * DEG_TO_RAD, eccentricity, perihelionLongitude: perihelionLongitude * DEG_TO_RAD },
+      start,
+      days
+    );
+  }, [year, obliquity, eccentricity, perihelionLongitude]);
+  const image = useMemo(() => heatmapImage(grid), [grid]);
+  const data = useMemo(() => grid.declinations.map((subsolar, day) => ({ day, subsolar })), [grid]);
+  // Tropics at ± the tilt and polar circles at ± its complement.
+  const tropic = Math.round(obliquity * 10) / 10;
+  const polarCircle = Math.round((90 - obliquity) * 10) / 10;
+
+  // The image's pixels are centred on the days and latitudes they sample.
+  const renderImage = ({ xAxisMap, yAxisMap }: CustomizedProps) => {
+    const xAxis = xAxisMap && Object.values(xAxisMap)[0];
+    const yAxis = yAxisMap && Object.values(yAxisMap)[0];
+    if (!xAxis || !yAxis || !image) return null;
+    const x = xAxis.scale(-0.5);
+    const y = yAxis.scale(90.5);
+    return (
+      <image
+        href={image}
+        x={x}
+        y={y}
+        width={xAxis.scale(grid.days - 0.5) - x}
+        height={yAxis.scale(-90.5) - y}
+        preserveAspectRatio="none"
+        style={{ imageRendering: 'pixelated' }}
+      />
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+        <LineChart data={data} margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <Customized component={renderImage} />
+          <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.3} />
+          <XAxis
+            dataKey="day"
+            type="number"
+            domain={[-0.5, grid.days - 0.5]}
+            ticks={MONTH_STARTS}
+            tickFormatter={formatMonthTick}
+          />
+          <YAxis
+            type="number"
+            width={40}
+            domain={[-90.5, 90.5]}
+            ticks={[-90, -polarCircle, -tropic, 0, tropic, polarCircle, 90]}
+            tickFormatter={(value: number) => `${Math.abs(value)}°${value > 0 ? 'N' : value < 0 ? 'S' : ''}`}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => `Day ${payload[0]?.payload.day + 1}`}
+                formatter={(value) => `Subsolar latitude ${Number(value).toFixed(1)}°`}
+              />
+            }
+          />
+          <Line dataKey="subsolar" type="monotone" stroke="var(--color-subsolar)" strokeWidth={1} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+          <ReferenceLine x={Math.floor(dayOfYear)} stroke="hsl(var(--accent))" strokeWidth={1.5} />
+        </LineChart>
+      </ChartContainer>
+      <div className="flex items-center gap-2 text-xs text-foreground/70">
+        <span>0</span>
+        <span className="h-3 flex-1 rounded-sm" style={{ backgroundImage: HEAT_GRADIENT }} />
+        <span>{grid.max.toFixed(0)} W/m²</span>
+      </div>
+    </div>
+  );
+}
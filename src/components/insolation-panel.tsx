@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { InsolationHeatmap } from '@/components/insolation-heatmap';
+
+interface InsolationPanelProps {
+  obliquity: number; // degrees, the simulation's
+  eccentricity: number; // the simulation's
+  perihelionLongitude: number; // degrees, the Sun's perihelion from the equinox
+  year: number;
+  dayOfYear: number;
+}
+
+interface WhatIf {
+  obliquity: number; // degrees
+  eccentricity: number;
+}
+
+export function InsolationPanel({ obliquity, eccentricity, perihelionLongitude, year, dayOfYear }: InsolationPanelProps) {
+  // Until a slider is moved the map follows the simulation's orbit.
+  const [whatIf, setWhatIf] = useState<WhatIf | null>(null);
+  const shown = whatIf ?? { obliquity, eccentricity };
+  const update = (change: Partial<WhatIf>) => setWhatIf({ ...shown, ...change });
+  // Inverse-square ratio of aphelion to perihelion distance.
+  const perihelionGain = (((1 + shown.eccentricity) / (1 - shown.eccentricity)) ** 2 - 1) * 100;
+
+  return (
+    <div className="space-y-4 text-sm p-2">
+      <p className="text-foreground/80">
+        Daily mean sunlight at the top of the atmosphere for every latitude through {year}; the dashed line is the latitude
+        where the Sun is overhead at noon. Tilt moves that line between the tropics and gives each pole months of
+        continuous day, so each hemisphere's summer is its bright season. Earth is closest to the Sun in early January, but
+        with e = {shown.eccentricity.toFixed(4)} sunlight at perihelion is {perihelionGain.toFixed(1)}% stronger than at
+        aphelion, for every latitude alike{perihelionGain < 25 ? ', far less than tilt takes from the winter hemisphere' : ''}.
+      </p>
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-foreground/80">Axial tilt: {shown.obliquity.toFixed(1)}°</Label>
+          <Slider min={0} max={90} step={0.5} value={[shown.obliquity]} onValueChange={(value) => update({ obliquity: value[0] })} aria-label="Axial tilt" />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-foreground/80">Eccentricity: {shown.eccentricity.toFixed(3)}</Label>
+          <Slider min={0} max={0.4} step={0.005} value={[shown.eccentricity]} onValueChange={(value) => update({ eccentricity: value[0] })} aria-label="Eccentricity" />
+        </div>
+      </div>
+      {whatIf && (
+        <div className="flex items-center justify-between gap-2 text-xs text-foreground/60">
+          <span>Showing a what-if orbit; the simulation is unchanged.</span>
+          <Button size="sm" variant="outline" onClick={() => setWhatIf(null)}>Use simulation values</Button>
+        </div>
+      )}
+      <InsolationHeatmap
+        year={year}
+        obliquity={shown.obliquity}
+        eccentricity={shown.eccentricity}
+        perihelionLongitude={perihelionLongitude}
+        dayOfYear={dayOfYear}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+const LAWS = [
+  {
+    title: '1. The Law of Ellipses',
+    text: "The orbit of a planet is an ellipse with the Sun at one of the two foci. This simulation places the Sun at a focus of Earth's orbit. Earth's real eccentricity (0.0167) makes the orbit look almost circular, so the shape slider can stretch the drawing without changing the physics.",
+  },
+  {
+    title: '2. The Law of Equal Areas',
+    text: "A line segment joining a planet and the Sun sweeps out equal areas during equal intervals of time. This simulation solves Kepler's equation (M = E − e·sin E) each frame to turn the uniformly advancing mean anomaly into Earth's position, so Earth moves fastest when closest to the Sun (perihelion) and slowest when farthest away (aphelion).",
+  },
+  {
+    title: '3. The Law of Harmonies',
+    text: 'The square of the orbital period (T) of a planet is directly proportional to the cube of the semi-major axis (a) of its orbit (T² ∝ a³). This law relates the orbital periods and distances of planets in the solar system.',
+  },
+];
+
+export function KeplerLawsPanel() {
+  return (
+    <div className="space-y-4 text-sm text-foreground/80 p-2">
+      {LAWS.map(({ title, text }) => (
+        <div key={title}>
+          <h4 className="font-semibold text-foreground">{title}</h4>
+          <p className="mt-1">{text}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
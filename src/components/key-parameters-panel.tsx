@@ -0,0 +1,31 @@
+import { SIDEREAL_DAY, formatSiderealTime } from '@/lib/earth-rotation';
+import { EARTH_MEAN_ELEMENTS, siderealPeriod } from '@/lib/ephemeris';
+import { MOON } from '@/lib/moon';
+
+interface KeyParametersPanelProps {
+  axialTilt: number; // degrees
+  eccentricity: number; // Earth's, as currently modelled
+}
+
+export function KeyParametersPanel({ axialTilt, eccentricity }: KeyParametersPanelProps) {
+  const parameters = [
+    { name: 'Axial Tilt', value: `${axialTilt.toFixed(2)}°` },
+    { name: 'Orbital Period', value: `${siderealPeriod(EARTH_MEAN_ELEMENTS).toFixed(3)} days` },
+    { name: 'Orbital Eccentricity (e)', value: eccentricity.toFixed(5) },
+    { name: 'Sidereal Day', value: formatSiderealTime(SIDEREAL_DAY * 2 * Math.PI) },
+    { name: 'Lunar Sidereal Month', value: `${MOON.siderealPeriod.toFixed(3)} days` },
+    { name: 'Lunar Synodic Month', value: `${MOON.synodicPeriod.toFixed(3)} days` },
+    { name: 'Lunar Orbit (i, e)', value: `${MOON.inclination.toFixed(2)}°, ${MOON.eccentricity.toFixed(4)}` },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 text-sm p-2">
+      {parameters.map(({ name, value }) => (
+        <div key={name} className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">{name}</p>
+          <p className="font-mono text-base">{value}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo } from 'react';
+import { contourPath, sampleGrid } from '@/lib/contours';
+import { SUN_EARTH_MASS_RATIO, effectivePotential, lagrangePoints } from '@/lib/lagrange';
+import type { Vector2 } from '@/lib/orbital-mechanics';
+
+// L1 and L2 are only 0.01 AU from Earth, so the space around Earth is
+// magnified until they would sit about this far from it on screen. The
+// magnification fades out within a fraction of Earth's distance from the
+// Sun, leaving L3–L5 (nearly) to scale.
+const NEAR_EARTH_TARGET = 30; // px
+const NEAR_EARTH_FADE = 0.3; // of Earth's screen distance
+const MIN_NEAR_EARTH_FADE = 40; // px
+
+// The potential is sampled on a grid wide enough to cover the view however
+// the overlay is rotated.
+const GRID_HALF_WIDTH = 430; // px
+const GRID_SPACING = 8; // px
+
+const MU = SUN_EARTH_MASS_RATIO;
+const POINTS = lagrangePoints(MU);
+
+interface LagrangeOverlayProps {
+  earthDistance: number; // px from the Sun; the overlay puts Earth on the +x axis
+  mapRadius: (au: number) => number;
+  unmapRadius: (px: number) => number;
+  showContours: boolean;
+  labelAngle: number; // degrees the overlay is rotated by, so labels can stay upright
+}
+
+/** Physical offset from Earth (px) for a magnified on-screen offset. */
+function unmagnify(offset: number, magnification: number, fade: number): number {
+  const blend = 1 - Math.exp(-((offset / fade) ** 2));
+  return offset * (1 / magnification + (1 - 1 / magnification) * blend);
+}
+
+/** Inverse of `unmagnify`, by bisection (it is monotonic). */
+function magnify(offset: number, magnification: number, fade: number): number {
+  let low = 0;
+  let high = offset * magnification;
+  for (let i = 0; i < 60; i++) {
+    const mid = (low + high) / 2;
+    if (unmagnify(mid, magnification, fade) < offset) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+}
+
+export function LagrangeOverlay({ earthDistance, mapRadius, unmapRadius, showContours, labelAngle }: LagrangeOverlayProps) {
+  const earthAu = unmapRadius(earthDistance);
+
+  // Rotating-frame coordinates (units of the Sun–Earth distance) ↔ overlay px.
+  const physicalScreen = ({ x, y }: Vector2): Vector2 => {
+    const au = Math.hypot(x + MU, y) * earthAu;
+    const angle = Math.atan2(y, x + MU);
+    return { x: mapRadius(au) * Math.cos(angle), y: mapRadius(au) * Math.sin(angle) };
+  };
+  const l1Offset = earthDistance - physicalScreen(POINTS[0]).x;
+  const magnification = Math.max(1, NEAR_EARTH_TARGET / l1Offset);
+  const fade = Math.max(MIN_NEAR_EARTH_FADE, NEAR_EARTH_FADE * earthDistance);
+
+  const toScreen = (point: Vector2): Vector2 => {
+    const physical = physicalScreen(point);
+    const dx = physical.x - earthDistance;
+    const offset = Math.hypot(dx, physical.y);
+    if (offset === 0) return physical;
+    const scale = magnify(offset, magnification, fade) / offset;
+    return { x: earthDistance + dx * scale, y: physical.y * scale };
+  };
+
+  // Sampling the potential is too slow to repeat every frame, so the parent
+  // passes Earth's distance rounded to a couple of px and the contours are
+  // cached on it.
+  const contours = useMemo(() => {
+    if (!showContours) return [];
+    const field = (px: number, py: number) => {
+      const dx = px - earthDistance;
+      const offset = Math.hypot(dx, py);
+      const scale = offset === 0 ? 0 : unmagnify(offset, magnification, fade) / offset;
+      const qx = earthDistance + dx * scale;
+      const qy = py * scale;
+      const r = unmapRadius(Math.hypot(qx, qy)) / earthAu;
+      const angle = Math.atan2(qy, qx);
+      return effectivePotential(r * Math.cos(angle) - MU, r * Math.sin(angle), MU);
+    };
+    const size = Math.floor((2 * GRID_HALF_WIDTH) / GRID_SPACING) + 1;
+    const grid = sampleGrid(field, -GRID_HALF_WIDTH, -GRID_HALF_WIDTH, GRID_SPACING, size);
+
+    // Levels through the saddle points at L1, L2 and L3 outline the
+    // "zero-velocity" regions; deeper ones ring the Sun inside and outside
+    // Earth's orbit, showing the potential ridge that L3–L5 sit on.
+    const [l1, l2, l3] = POINTS.map(point => effectivePotential(point.x, point.y, MU));
+    const step = l3 - l1;
+    return [
+      { level: l1 - 40 * step, strong: false },
+      { level: l1 - 10 * step, strong: false },
+      { level: l1 - 2 * step, strong: false },
+      { level: l1, strong: true },
+      { level: l2, strong: true },
+      { level: l3, strong: true },
+    ].map(({ level, strong }) => ({ level, strong, path: contourPath(grid, level) }));
+  }, [showContours, earthDistance, magnification, fade, earthAu, unmapRadius]);
+
+  return (
+    <g>
+      {contours.map(({ level, strong, path }) => (
+        <path key={level} d={path} fill="none" stroke="#A78BFA" strokeWidth={strong ? 0.9 : 0.5} opacity={strong ? 0.6 : 0.35} />
+      ))}
+      {POINTS.map(point => {
+        const { x, y } = toScreen(point);
+        return (
+          <g key={point.id} transform={`translate(${x}, ${y})`}>
+            <circle r="2.5" fill="none" stroke="#A78BFA" strokeWidth="1" />
+            <text transform={`rotate(${-labelAngle}) translate(0, -5)`} textAnchor="middle" fontSize="8" fill="#A78BFA">{point.id}</text>
+          </g>
+        );
+      })}
+    </g>
+  );
+}
@@ -0,0 +1,94 @@
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { formatSiderealTime } from '@/lib/earth-rotation';
+import type { HeliocentricPosition } from '@/lib/ephemeris';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { PLANETS, getPlanet, type PlanetId } from '@/lib/solar-system';
+import { formatEquationOfTime } from '@/lib/solar-time';
+
+// Earth's spin can be measured against the distant stars or against the Sun.
+export type RotationFrame = 'stars' | 'sun';
+
+interface LiveDataPanelProps {
+  planetId: PlanetId;
+  onPlanetChange: (id: PlanetId) => void;
+  dayOfYear: number;
+  position: HeliocentricPosition; // the selected planet's
+  rotationAngle: number; // degrees
+  rotationFrame: RotationFrame; // what Earth's rotation is measured against
+  equationOfTime: number; // minutes
+  solarDay: number; // days on the selected planet, Infinity if one face stays lit
+  siderealTime: number; // radians, Greenwich
+}
+
+function formatSolarDay(days: number): string {
+  if (!Number.isFinite(days)) return 'Endless (same face lit)';
+  return days < 2 ? `${(days * 24).toFixed(2)} h` : `${days.toFixed(2)} days`;
+}
+
+export function LiveDataPanel({
+  planetId,
+  onPlanetChange,
+  dayOfYear,
+  position,
+  rotationAngle,
+  rotationFrame,
+  equationOfTime,
+  solarDay,
+  siderealTime,
+}: LiveDataPanelProps) {
+  const planet = getPlanet(planetId);
+
+  return (
+    <>
+      <div className="flex items-center gap-4 p-2">
+        <Label htmlFor="planet-select" className="text-foreground/80">Showing data for</Label>
+        <Select value={planetId} onValueChange={(value) => onPlanetChange(value as PlanetId)}>
+          <SelectTrigger id="planet-select" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PLANETS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm p-2">
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Day of Year</p>
+          <p className="font-mono text-base">{dayOfYear.toFixed(2)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Heliocentric Longitude</p>
+          <p className="font-mono text-base">{(position.longitude * RAD_TO_DEG).toFixed(2)}°</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Distance from Sun</p>
+          <p className="font-mono text-base">{position.radius.toFixed(4)} AU</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">
+            {planet.name}'s Rotation{planetId === 'earth' ? ` (${rotationFrame} frame)` : ''}
+          </p>
+          <p className="font-mono text-base">{rotationAngle.toFixed(2)}°</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Equation of Time</p>
+          <p className="font-mono text-base">{formatEquationOfTime(equationOfTime)}</p>
+          <p className="text-xs text-foreground/60">Sundial {equationOfTime >= 0 ? 'ahead of' : 'behind'} the clock</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Solar Day on {planet.name}</p>
+          <p className="font-mono text-base">{formatSolarDay(solarDay)}</p>
+        </div>
+        {planetId === 'earth' && (
+          <div className="p-3 rounded-lg bg-background/50">
+            <p className="font-semibold text-accent/80">Greenwich Sidereal Time</p>
+            <p className="font-mono text-base">{formatSiderealTime(siderealTime)}</p>
+          </div>
+        )}
+      </div>
+    </>
+  );
+}
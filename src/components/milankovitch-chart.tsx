@@ -0,0 +1,72 @@
+"use client";
+
+import { memo, useMemo } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceLine, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+import { orbitalForcingSeries, type OrbitalForcing } from '@/lib/milankovitch';
+
+interface MilankovitchChartProps {
+  years: number; // current deep-time offset from J2000
+}
+
+type ForcingKey = keyof Pick<OrbitalForcing, 'eccentricity' | 'obliquity' | 'precessionIndex' | 'summerInsolation'>;
+
+const chartConfig = {
+  eccentricity: { label: 'Eccentricity', color: 'hsl(var(--chart-1))' },
+  obliquity: { label: 'Obliquity (°)', color: 'hsl(var(--chart-2))' },
+  precessionIndex: { label: 'Precession index (e·sin ϖ)', color: 'hsl(var(--chart-3))' },
+  summerInsolation: { label: '65°N June insolation (W/m²)', color: 'hsl(var(--chart-4))' },
+} satisfies ChartConfig;
+
+const SERIES: { key: ForcingKey; digits: number }[] = [
+  { key: 'eccentricity', digits: 3 },
+  { key: 'obliquity', digits: 1 },
+  { key: 'precessionIndex', digits: 3 },
+  { key: 'summerInsolation', digits: 0 },
+];
+
+// The charts show ±250 ka around the current time, re-centred every 50 ka.
+const WINDOW_HALF_WIDTH = 250000;
+const WINDOW_STEP = 50000;
+const SAMPLE_STEP = 1000;
+
+export const MilankovitchChart = memo(function MilankovitchChart({ years }: MilankovitchChartProps) {
+  const center = Math.round(years / WINDOW_STEP) * WINDOW_STEP;
+  const data = useMemo(
+    () => orbitalForcingSeries(center - WINDOW_HALF_WIDTH, center + WINDOW_HALF_WIDTH, SAMPLE_STEP).map(sample => ({
+      ...sample,
+      kyr: sample.years / 1000,
+    })),
+    [center]
+  );
+
+  return (
+    <div className="space-y-2">
+      {SERIES.map(({ key, digits }, index) => (
+        <div key={key}>
+          <p className="text-xs font-semibold text-accent/80">{chartConfig[key].label}</p>
+          <ChartContainer config={chartConfig} className="aspect-auto h-24 w-full">
+            <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="kyr"
+                type="number"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={(value: number) => `${value} ka`}
+                hide={index < SERIES.length - 1}
+              />
+              <YAxis
+                width={44}
+                domain={['auto', 'auto']}
+                tickFormatter={(value: number) => value.toFixed(digits)}
+              />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload[0]?.payload.kyr} ka`} />} />
+              <Line dataKey={key} type="monotone" stroke={`var(--color-${key})`} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              <ReferenceLine x={years / 1000} stroke="hsl(var(--accent))" strokeDasharray="3 3" />
+            </LineChart>
+          </ChartContainer>
+        </div>
+      ))}
+    </div>
+  );
+});
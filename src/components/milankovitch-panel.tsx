@@ -0,0 +1,36 @@
+import { MilankovitchChart } from '@/components/milankovitch-chart';
+import type { OrbitalForcing } from '@/lib/milankovitch';
+
+interface MilankovitchPanelProps {
+  forcing: OrbitalForcing;
+}
+
+export function MilankovitchPanel({ forcing }: MilankovitchPanelProps) {
+  const readings = [
+    { name: 'Obliquity', value: `${forcing.obliquity.toFixed(2)}°` },
+    { name: 'Eccentricity', value: forcing.eccentricity.toFixed(4) },
+    { name: 'Axial Precession', value: `${forcing.precessionAngle.toFixed(1)}°` },
+    { name: 'Perihelion Longitude', value: `${forcing.perihelionLongitude.toFixed(1)}°` },
+    { name: '65°N June Insolation', value: `${forcing.summerInsolation.toFixed(0)} W/m²` },
+  ];
+
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-4 text-sm p-2">
+        {readings.map(({ name, value }) => (
+          <div key={name} className="p-3 rounded-lg bg-background/50">
+            <p className="font-semibold text-accent/80">{name}</p>
+            <p className="font-mono text-base">{value}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-foreground/80 p-2">
+        Over tens of thousands of years the tilt nods between 22.1° and 24.5° (~41 ka), the axis precesses (~26 ka) and the orbit
+        stretches and relaxes (~100 ka). Together they set how strong northern summers are; weak ones at 65°N let ice sheets grow.
+        The cycles here are simplified sinusoids, so treat individual peaks as indicative.
+      </p>
+      {/* Rounded so the chart redraws once a century rather than every frame */}
+      <MilankovitchChart years={Math.round(forcing.years / 100) * 100} />
+    </>
+  );
+}
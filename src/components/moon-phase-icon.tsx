@@ -0,0 +1,27 @@
+import type { MoonState } from '@/lib/moon';
+
+interface MoonPhaseIconProps {
+  moon: Pick<MoonState, 'illumination' | 'isWaxing'>;
+  size?: number;
+}
+
+/**
+ * The Moon's disc as seen from the Northern Hemisphere: lit on the right while
+ * waxing, on the left while waning. The terminator is a half-ellipse whose
+ * width follows the illuminated fraction.
+ */
+export function MoonPhaseIcon({ moon, size = 28 }: MoonPhaseIconProps) {
+  const r = size / 2 - 1;
+  const terminatorRx = r * Math.abs(1 - 2 * moon.illumination);
+  const isGibbous = moon.illumination > 0.5;
+  const limbSweep = moon.isWaxing ? 1 : 0;
+  const terminatorSweep = isGibbous === moon.isWaxing ? 1 : 0;
+  const litPath = `M 0,${-r} A ${r},${r} 0 0 ${limbSweep} 0,${r} A ${terminatorRx},${r} 0 0 ${terminatorSweep} 0,${-r} Z`;
+
+  return (
+    <svg width={size} height={size} viewBox={`${-size / 2} ${-size / 2} ${size} ${size}`} aria-hidden="true">
+      <circle r={r} fill="#1F2937" stroke="#4B5563" strokeWidth="0.5" />
+      <path d={litPath} fill="#E5E7EB" />
+    </svg>
+  );
+}
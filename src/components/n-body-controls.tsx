@@ -0,0 +1,82 @@
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { INTEGRATORS, getIntegrator } from '@/lib/n-body';
+
+interface NBodyControlsProps {
+  integratorId: string;
+  onIntegratorChange: (id: string) => void;
+  stepSize: number; // days
+  onStepSizeChange: (stepSize: number) => void;
+  tolerance: number;
+  onToleranceChange: (tolerance: number) => void;
+  planetName: string; // the planet a kick acts on
+  onKick: (factor: number) => void; // scales the planet's speed
+  onReset: () => void;
+}
+
+// Integrator substeps; 0.5 days is fine enough for Mercury's 88-day orbit,
+// while the longer ones show how each method degrades.
+const STEP_SIZES = [0.1, 0.5, 2, 8]; // days
+const TOLERANCES = [1e-6, 1e-8, 1e-10, 1e-12];
+const VELOCITY_KICK = 0.1; // fraction of orbital speed added or removed per kick
+
+export function NBodyControls({
+  integratorId,
+  onIntegratorChange,
+  stepSize,
+  onStepSizeChange,
+  tolerance,
+  onToleranceChange,
+  planetName,
+  onKick,
+  onReset,
+}: NBodyControlsProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <Select value={integratorId} onValueChange={onIntegratorChange}>
+          <SelectTrigger className="flex-1" aria-label="Integrator">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {INTEGRATORS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {getIntegrator(integratorId).adaptive ? (
+          <Select value={String(tolerance)} onValueChange={(value) => onToleranceChange(Number(value))}>
+            <SelectTrigger className="w-28" aria-label="Error tolerance">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TOLERANCES.map(option => (
+                <SelectItem key={option} value={String(option)}>tol {option.toExponential(0)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Select value={String(stepSize)} onValueChange={(value) => onStepSizeChange(Number(value))}>
+            <SelectTrigger className="w-28" aria-label="Step size">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {STEP_SIZES.map(option => (
+                <SelectItem key={option} value={String(option)}>Δt {option} d</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => onKick(1 + VELOCITY_KICK)}>Boost {planetName}</Button>
+        <Button size="sm" variant="outline" className="flex-1" onClick={() => onKick(1 - VELOCITY_KICK)}>Brake {planetName}</Button>
+        <Button size="sm" variant="outline" onClick={onReset}>Reset</Button>
+      </div>
+      <p className="text-xs text-foreground/60">
+        Planets move under each other's gravity instead of fixed ellipses. A kick changes the selected planet's speed by
+        {' '}{VELOCITY_KICK * 100}%, and its drawn orbit becomes the ellipse it now follows.
+      </p>
+    </div>
+  );
+}
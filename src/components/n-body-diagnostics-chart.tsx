@@ -0,0 +1,66 @@
+"use client";
+
+import { memo } from 'react';
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from '@/components/ui/chart';
+
+export interface DiagnosticSample {
+  years: number; // since the run started
+  energy: number; // relative error
+  angularMomentum: number; // relative error
+}
+
+interface NBodyDiagnosticsChartProps {
+  samples: DiagnosticSample[];
+}
+
+const chartConfig = {
+  energy: { label: 'Energy error |ΔE/E₀|', color: 'hsl(var(--chart-1))' },
+  angularMomentum: { label: 'Angular momentum error |ΔL|/|L₀|', color: 'hsl(var(--chart-2))' },
+} satisfies ChartConfig;
+
+// A log axis can't show zero, and errors below double precision are noise anyway.
+const ERROR_FLOOR = 1e-16;
+
+// Memoized so the chart only redraws when a new sample is added.
+export const NBodyDiagnosticsChart = memo(function NBodyDiagnosticsChart({ samples }: NBodyDiagnosticsChartProps) {
+  const data = samples.map(sample => ({
+    years: sample.years,
+    energy: Math.max(sample.energy, ERROR_FLOOR),
+    angularMomentum: Math.max(sample.angularMomentum, ERROR_FLOOR),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+      <LineChart data={data} margin={{ top: 4, right: 8, bottom: 0, left: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="years"
+          type="number"
+          domain={[0, 'dataMax']}
+          tickFormatter={(value: number) => `${value.toFixed(1)} yr`}
+        />
+        <YAxis
+          width={52}
+          scale="log"
+          domain={['auto', 'auto']}
+          allowDataOverflow
+          tickFormatter={(value: number) => value.toExponential(0)}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) => `${payload[0]?.payload.years.toFixed(2)} yr`}
+              formatter={(value, name) => (
+                <span className="font-mono">{chartConfig[name as keyof typeof chartConfig].label}: {Number(value).toExponential(2)}</span>
+              )}
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line dataKey="energy" type="monotone" stroke="var(--color-energy)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        <Line dataKey="angularMomentum" type="monotone" stroke="var(--color-angularMomentum)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+      </LineChart>
+    </ChartContainer>
+  );
+});
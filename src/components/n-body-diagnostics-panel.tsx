@@ -0,0 +1,45 @@
+import { NBodyDiagnosticsChart, type DiagnosticSample } from '@/components/n-body-diagnostics-chart';
+import { INTEGRATORS, getIntegrator } from '@/lib/n-body';
+
+interface NBodyDiagnosticsPanelProps {
+  integratorId: string;
+  stepSize: number; // days
+  tolerance: number;
+  samples: DiagnosticSample[]; // at least one, oldest first
+}
+
+const SYMPLECTIC_NAMES = INTEGRATORS.filter(option => option.symplectic).map(option => option.name).join(', ');
+
+export function NBodyDiagnosticsPanel({ integratorId, stepSize, tolerance, samples }: NBodyDiagnosticsPanelProps) {
+  const integrator = getIntegrator(integratorId);
+  const latest = samples[samples.length - 1];
+
+  return (
+    <>
+      <div className="grid grid-cols-2 sm:grid-cols-2 lg:grid-cols-4 gap-4 text-sm p-2">
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Integrator</p>
+          <p className="font-mono text-base">{integrator.name}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">{integrator.adaptive ? 'Tolerance' : 'Step Size'}</p>
+          <p className="font-mono text-base">{integrator.adaptive ? tolerance.toExponential(0) : `${stepSize} days`}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Energy Error</p>
+          <p className="font-mono text-base">{latest.energy.toExponential(2)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Angular Momentum Error</p>
+          <p className="font-mono text-base">{latest.angularMomentum.toExponential(2)}</p>
+        </div>
+      </div>
+      <p className="text-sm text-foreground/80 p-2">
+        Exact gravity conserves total energy and angular momentum, so any change is numerical error. Euler and Runge–Kutta
+        let the energy drift further every orbit. Symplectic methods ({SYMPLECTIC_NAMES}) keep it bounded, oscillating
+        around the true value, and conserve angular momentum to rounding error.
+      </p>
+      <NBodyDiagnosticsChart samples={samples} />
+    </>
+  );
+}
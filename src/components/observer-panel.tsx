@@ -0,0 +1,163 @@
+import { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DayLengthChart } from '@/components/day-length-chart';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import { DEG_TO_RAD } from '@/lib/orbital-mechanics';
+import { CITIES, getCity, localMidnight, sunEvents, type HorizonCrossing, type Observer } from '@/lib/observer';
+
+interface ObserverPanelProps {
+  observer: Observer;
+  cityId: string; // a preset id, or 'custom'
+  onChange: (observer: Observer, cityId: string) => void;
+  julianDate: number;
+  obliquity: number; // degrees
+  year: number;
+  dayOfYear: number;
+}
+
+const TWILIGHTS: { id: 'civil' | 'nautical' | 'astronomical'; label: string }[] = [
+  { id: 'civil', label: 'Civil Twilight' },
+  { id: 'nautical', label: 'Nautical Twilight' },
+  { id: 'astronomical', label: 'Astronomical Twilight' },
+];
+
+function formatClockTime(julianDate: number | null, timeZone: string): string {
+  if (julianDate === null) return '—';
+  return dateFromJulianDate(julianDate).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone });
+}
+
+function formatHours(hours: number): string {
+  const totalMinutes = Math.round(hours * 60);
+  return `${Math.floor(totalMinutes / 60)}h ${(totalMinutes % 60).toString().padStart(2, '0')}m`;
+}
+
+function formatCrossing({ rise, set, polar }: HorizonCrossing, timeZone: string): string {
+  if (polar === 'day') return 'Sun stays above all day';
+  if (polar === 'night') return 'Sun stays below all day';
+  return `${formatClockTime(rise, timeZone)} – ${formatClockTime(set, timeZone)}`;
+}
+
+function parseCoordinate(text: string, limit: number): number | null {
+  const value = Number(text);
+  return text.trim() !== '' && Number.isFinite(value) && Math.abs(value) <= limit ? value : null;
+}
+
+export function ObserverPanel({ observer, cityId, onChange, julianDate, obliquity, year, dayOfYear }: ObserverPanelProps) {
+  // The fields keep what was typed, so a half-entered value like "-" isn't
+  // overwritten; only valid coordinates are passed up.
+  const [latitudeText, setLatitudeText] = useState(observer.latitude.toString());
+  const [longitudeText, setLongitudeText] = useState(observer.longitude.toString());
+  // Follow changes made elsewhere, e.g. the side view's latitude slider.
+  const [shownObserver, setShownObserver] = useState(observer);
+  if (observer !== shownObserver) {
+    setShownObserver(observer);
+    if (parseCoordinate(latitudeText, 90) !== observer.latitude) setLatitudeText(observer.latitude.toString());
+    if (parseCoordinate(longitudeText, 180) !== observer.longitude) setLongitudeText(observer.longitude.toString());
+  }
+  const city = getCity(cityId);
+  const timeZone = city?.timeZone ?? 'UTC';
+
+  // Everything below depends only on the observer's local day.
+  const midnight = localMidnight(julianDate, observer.longitude);
+  const events = useMemo(
+    () => sunEvents(midnight + 0.5, observer, obliquity * DEG_TO_RAD),
+    [midnight, observer, obliquity]
+  );
+  const sunrise = events.crossings.sunrise;
+
+  const selectCity = (id: string) => {
+    const preset = getCity(id);
+    if (!preset) return;
+    setLatitudeText(preset.latitude.toString());
+    setLongitudeText(preset.longitude.toString());
+    onChange({ latitude: preset.latitude, longitude: preset.longitude }, preset.id);
+  };
+
+  const editCoordinate = (latitude: string, longitude: string) => {
+    setLatitudeText(latitude);
+    setLongitudeText(longitude);
+    const lat = parseCoordinate(latitude, 90);
+    const lon = parseCoordinate(longitude, 180);
+    if (lat !== null && lon !== null) onChange({ latitude: lat, longitude: lon }, 'custom');
+  };
+
+  return (
+    <div className="space-y-4 text-sm p-2">
+      <p className="text-foreground/80">
+        What the orbit means on the ground: the Sun's daily course for one place on Earth. Times are for the simulated date,
+        in {city ? `${city.name} local time` : 'UTC'}.
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="observer-city" className="text-xs text-foreground/80">City</Label>
+          <Select value={cityId} onValueChange={selectCity}>
+            <SelectTrigger id="observer-city">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CITIES.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+              <SelectItem value="custom" disabled>Custom</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="observer-latitude" className="text-xs text-foreground/80">Latitude (°N)</Label>
+          <Input
+            id="observer-latitude"
+            type="number"
+            step="0.1"
+            min={-90}
+            max={90}
+            value={latitudeText}
+            onChange={(event) => editCoordinate(event.target.value, longitudeText)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="observer-longitude" className="text-xs text-foreground/80">Longitude (°E)</Label>
+          <Input
+            id="observer-longitude"
+            type="number"
+            step="0.1"
+            min={-180}
+            max={180}
+            value={longitudeText}
+            onChange={(event) => editCoordinate(latitudeText, event.target.value)}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Sunrise – Sunset</p>
+          <p className="font-mono text-base">{formatCrossing(sunrise, timeZone)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Day Length</p>
+          <p className="font-mono text-base">{sunrise.polar === 'day' ? 'Midnight sun' : sunrise.polar === 'night' ? 'Polar night' : formatHours(events.dayLength)}</p>
+        </div>
+        <div className="p-3 rounded-lg bg-background/50">
+          <p className="font-semibold text-accent/80">Solar Noon</p>
+          <p className="font-mono text-base">{formatClockTime(events.noon, timeZone)}</p>
+          <p className="text-xs text-foreground/60">Sun {events.noonElevation.toFixed(1)}° above the horizon</p>
+        </div>
+        {TWILIGHTS.map(({ id, label }) => (
+          <div key={id} className="p-3 rounded-lg bg-background/50">
+            <p className="font-semibold text-accent/80">{label}</p>
+            <p className="font-mono text-base">{formatCrossing(events.crossings[id], timeZone)}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-foreground/60">
+        Twilights run from when the Sun's centre is 6°, 12° or 18° below the horizon until sunrise, and again after sunset.
+        Sunrise and sunset allow for refraction and the Sun's radius.
+      </p>
+      <div>
+        <p className="text-xs font-semibold text-accent/80">Day length through {year}</p>
+        <DayLengthChart year={year} latitude={observer.latitude} longitude={observer.longitude} obliquity={obliquity} dayOfYear={dayOfYear} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import type { OrbitEvent } from '@/lib/orbit-events';
+
+interface OrbitEventListProps {
+  events: OrbitEvent[]; // upcoming, soonest first
+  previous: OrbitEvent[]; // most recent first
+  currentJulianDate: number;
+  onJump: (julianDate: number) => void;
+}
+
+// How many of the past events to list below the upcoming ones.
+const PREVIOUS_COUNT = 2;
+
+function formatEventTime(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    timeZone: 'UTC',
+    timeZoneName: 'short',
+  });
+}
+
+function formatCountdown(days: number): string {
+  if (Math.abs(days) < 1 / 1440) return 'now';
+  const span = Math.abs(days);
+  const text = span < 1 ? `${(span * 24).toFixed(1)} h` : `${span.toFixed(span < 10 ? 1 : 0)} d`;
+  return days > 0 ? `in ${text}` : `${text} ago`;
+}
+
+interface EventRowProps {
+  event: OrbitEvent;
+  currentJulianDate: number;
+  onJump: (julianDate: number) => void;
+  className?: string;
+}
+
+function EventRow({ event, currentJulianDate, onJump, className }: EventRowProps) {
+  return (
+    <div className={cn('flex items-center justify-between gap-2', className)}>
+      <div>
+        <p className="text-foreground/90">{event.name}</p>
+        <p className="font-mono text-xs text-foreground/60">
+          {formatEventTime(event.julianDate)} · {formatCountdown(event.julianDate - currentJulianDate)}
+        </p>
+      </div>
+      <Button size="sm" variant="ghost" className="h-7" onClick={() => onJump(event.julianDate)}>Jump</Button>
+    </div>
+  );
+}
+
+export function OrbitEventList({ events, previous, currentJulianDate, onJump }: OrbitEventListProps) {
+  return (
+    <div className="space-y-1 text-sm">
+      {events.map(event => (
+        <EventRow key={event.id} event={event} currentJulianDate={currentJulianDate} onJump={onJump} />
+      ))}
+      {previous.length > 0 && <p className="pt-1 text-xs font-semibold text-foreground/60">Previous</p>}
+      {previous.slice(0, PREVIOUS_COUNT).map(event => (
+        <EventRow key={event.id} event={event} currentJulianDate={currentJulianDate} onJump={onJump} className="opacity-60" />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { Button } from '@/components/ui/button';
+import { PorkchopPlot } from '@/components/porkchop-plot';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import type { InterplanetaryTransfer } from '@/lib/lambert';
+import { getPlanet, type PlanetId } from '@/lib/solar-system';
+
+interface PorkchopPanelProps {
+  origin: PlanetId;
+  destination: PlanetId;
+  launchWindow: number; // Julian date the plot is centred on
+  hohmannTime: number; // days
+  synodicPeriod: number; // days
+  loaded: InterplanetaryTransfer | null;
+  onLoad: (transfer: InterplanetaryTransfer) => void;
+  onClear: () => void;
+}
+
+function formatDate(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toISOString().slice(0, 10);
+}
+
+export function PorkchopPanel({ origin, destination, launchWindow, hohmannTime, synodicPeriod, loaded, onLoad, onClear }: PorkchopPanelProps) {
+  return (
+    <div className="space-y-2 text-sm p-2">
+      <p className="text-foreground/80">
+        Each cell solves Lambert's problem for a departure and arrival date between {getPlanet(origin).name} and
+        {' '}{getPlanet(destination).name}. The shading is the launch energy C3 (the square of the speed left over
+        after escaping the origin) and the lines are the arrival v∞. The dashed line marks the Hohmann window. Click a cell to
+        fly that trajectory.
+      </p>
+      <PorkchopPlot
+        origin={origin}
+        destination={destination}
+        launchWindow={launchWindow}
+        hohmannTime={hohmannTime}
+        synodicPeriod={synodicPeriod}
+        selected={loaded}
+        onSelect={onLoad}
+      />
+      {loaded && (
+        <div className="flex items-center gap-2">
+          <p className="flex-1 font-mono text-xs">
+            Loaded: {formatDate(loaded.departureJulianDate)} → {formatDate(loaded.arrivalJulianDate)} · C3
+            {' '}{loaded.c3.toFixed(1)} km²/s² · v∞ {loaded.arrivalVInfinity.toFixed(2)} km/s
+          </p>
+          <Button size="sm" variant="outline" onClick={onClear}>Clear</Button>
+        </div>
+      )}
+    </div>
+  );
+}
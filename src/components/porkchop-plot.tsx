@@ -0,0 +1,194 @@
+"use client";
+
+import { memo, useMemo } from 'react';
+import { CartesianGrid, Customized, ReferenceDot, ReferenceLine, Scatter, ScatterChart, XAxis, YAxis } from 'recharts';
+import { ChartContainer, ChartTooltip, type ChartConfig } from '@/components/ui/chart';
+import type { AxisScale, CustomizedProps } from '@/components/chart-axes';
+import { contourPath } from '@/lib/contours';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import { interplanetaryTransfer, type InterplanetaryTransfer } from '@/lib/lambert';
+import { getPlanet, type PlanetId } from '@/lib/solar-system';
+
+interface PorkchopPlotProps {
+  origin: PlanetId;
+  destination: PlanetId;
+  launchWindow: number; // Julian date of the Hohmann window the grid is centred on
+  hohmannTime: number; // days
+  synodicPeriod: number; // days
+  selected: InterplanetaryTransfer | null;
+  onSelect: (transfer: InterplanetaryTransfer) => void;
+}
+
+interface PorkchopCell {
+  departure: number; // Julian date
+  arrival: number; // Julian date
+  band: number; // index into C3_BANDS
+  transfer: InterplanetaryTransfer;
+}
+
+const chartConfig = {
+  c3: { label: 'C3 (km²/s²)', color: 'hsl(var(--chart-1))' },
+  vInfinity: { label: 'Arrival v∞ (km/s)', color: 'hsl(var(--foreground))' },
+} satisfies ChartConfig;
+
+const GRID_SIZE = 32; // cells per axis
+
+// C3 is shaded in bands relative to the cheapest cell, and arrival v∞ drawn
+// as contour lines relative to the slowest; anything costlier is left blank.
+const C3_BANDS = [1.1, 1.25, 1.5, 2, 3, 5]; // × minimum C3
+const C3_COLORS = ['#15803D', '#4D7C0F', '#A16207', '#C2410C', '#B91C1C', '#7F1D1D'];
+const V_INFINITY_LEVELS = [1.25, 1.5, 2, 3]; // × minimum arrival v∞
+
+function formatMonth(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toLocaleDateString('en-US', { month: 'short', year: '2-digit', timeZone: 'UTC' });
+}
+
+function formatDay(julianDate: number): string {
+  return dateFromJulianDate(julianDate).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Props recharts hands to Scatter shapes.
+interface CellShapeProps {
+  cx: number;
+  cy: number;
+  xAxis: AxisScale;
+  yAxis: AxisScale;
+  payload: PorkchopCell;
+}
+
+// Memoized because solving ~1000 Lambert problems takes a noticeable moment;
+// the grid only changes with the route or the window.
+export const PorkchopPlot = memo(function PorkchopPlot({
+  origin,
+  destination,
+  launchWindow,
+  hohmannTime,
+  synodicPeriod,
+  selected,
+  onSelect,
+}: PorkchopPlotProps) {
+  const plot = useMemo(() => {
+    // Departures span a fraction of the synodic period around the window;
+    // flight times from well under to well over the Hohmann time.
+    const halfSpan = Math.min(0.2 * synodicPeriod, 150);
+    const departureStart = launchWindow - halfSpan;
+    const departureStep = (2 * halfSpan) / (GRID_SIZE - 1);
+    const arrivalStart = launchWindow + 0.6 * hohmannTime - halfSpan;
+    const arrivalStep = (0.8 * hohmannTime + 2 * halfSpan) / (GRID_SIZE - 1);
+
+    const originElements = getPlanet(origin).elements;
+    const destinationElements = getPlanet(destination).elements;
+    const transfers = Array.from({ length: GRID_SIZE }, (_, row) =>
+      Array.from({ length: GRID_SIZE }, (_, column) =>
+        interplanetaryTransfer(originElements, destinationElements, departureStart + column * departureStep, arrivalStart + row * arrivalStep)
+      )
+    );
+    const solved = transfers.flat().filter(transfer => transfer !== null);
+    const minC3 = Math.min(...solved.map(transfer => transfer.c3));
+    const minVInfinity = Math.min(...solved.map(transfer => transfer.arrivalVInfinity));
+
+    const cells: PorkchopCell[] = solved
+      .map(transfer => ({
+        departure: transfer.departureJulianDate,
+        arrival: transfer.arrivalJulianDate,
+        band: C3_BANDS.findIndex(factor => transfer.c3 <= factor * minC3),
+        transfer,
+      }))
+      .filter(cell => cell.band >= 0);
+    const vInfinityGrid = {
+      values: transfers.map(row => row.map(transfer => transfer?.arrivalVInfinity ?? NaN)),
+      x0: 0,
+      y0: 0,
+      spacing: 1,
+    };
+    const vInfinityContours = V_INFINITY_LEVELS.map(factor => ({
+      level: factor * minVInfinity,
+      path: contourPath(vInfinityGrid, factor * minVInfinity),
+    }));
+
+    return { departureStart, departureStep, arrivalStart, arrivalStep, cells, minC3, vInfinityContours };
+  }, [origin, destination, launchWindow, hohmannTime, synodicPeriod]);
+
+  const { departureStart, departureStep, arrivalStart, arrivalStep } = plot;
+  const departureEnd = departureStart + (GRID_SIZE - 1) * departureStep;
+  const arrivalEnd = arrivalStart + (GRID_SIZE - 1) * arrivalStep;
+
+  const renderCell = (props: unknown) => {
+    const { cx, cy, xAxis, yAxis, payload } = props as CellShapeProps;
+    const width = Math.abs(xAxis.scale(departureStart + departureStep) - xAxis.scale(departureStart)) + 0.5;
+    const height = Math.abs(yAxis.scale(arrivalStart + arrivalStep) - yAxis.scale(arrivalStart)) + 0.5;
+    return <rect x={cx - width / 2} y={cy - height / 2} width={width} height={height} fill={C3_COLORS[payload.band]} className="cursor-pointer" />;
+  };
+
+  // The contours are traced in grid units, then mapped onto the axes.
+  const renderContours = ({ xAxisMap, yAxisMap }: CustomizedProps) => {
+    const xAxis = xAxisMap && Object.values(xAxisMap)[0];
+    const yAxis = yAxisMap && Object.values(yAxisMap)[0];
+    if (!xAxis || !yAxis) return null;
+    const x0 = xAxis.scale(departureStart);
+    const y0 = yAxis.scale(arrivalStart);
+    const sx = xAxis.scale(departureStart + departureStep) - x0;
+    const sy = yAxis.scale(arrivalStart + arrivalStep) - y0;
+    return (
+      <g transform={`translate(${x0}, ${y0}) scale(${sx}, ${sy})`} pointerEvents="none">
+        {plot.vInfinityContours.map(({ level, path }, index) => (
+          <path key={level} d={path} fill="none" stroke="var(--color-vInfinity)" strokeWidth={index === 0 ? 1.25 : 0.75} opacity={0.7} vectorEffect="non-scaling-stroke" />
+        ))}
+      </g>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <ChartContainer config={chartConfig} className="aspect-square max-h-96 w-full">
+        <ScatterChart margin={{ top: 8, right: 8, bottom: 0, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis
+            dataKey="departure"
+            type="number"
+            domain={[departureStart - departureStep / 2, departureEnd + departureStep / 2]}
+            tickFormatter={formatMonth}
+            name="Departure"
+          />
+          <YAxis
+            dataKey="arrival"
+            type="number"
+            width={52}
+            domain={[arrivalStart - arrivalStep / 2, arrivalEnd + arrivalStep / 2]}
+            tickFormatter={formatMonth}
+            name="Arrival"
+          />
+          <ChartTooltip
+            cursor={false}
+            content={({ active, payload }) => {
+              const cell = active ? (payload?.[0]?.payload as PorkchopCell | undefined) : undefined;
+              if (!cell) return null;
+              return (
+                <div className="rounded-lg border border-border/50 bg-background px-2.5 py-1.5 text-xs shadow-xl font-mono">
+                  <p>{formatDay(cell.departure)} → {formatDay(cell.arrival)}</p>
+                  <p>{(cell.arrival - cell.departure).toFixed(0)} days · C3 {cell.transfer.c3.toFixed(1)} km²/s² · v∞ {cell.transfer.arrivalVInfinity.toFixed(2)} km/s</p>
+                </div>
+              );
+            }}
+          />
+          <Scatter data={plot.cells} shape={renderCell} isAnimationActive={false} onClick={(point) => onSelect((point.payload as PorkchopCell).transfer)} />
+          <Customized component={renderContours} />
+          <ReferenceLine x={launchWindow} stroke="hsl(var(--accent))" strokeDasharray="3 3" />
+          {selected && (
+            <ReferenceDot x={selected.departureJulianDate} y={selected.arrivalJulianDate} r={5} fill="none" stroke="hsl(var(--accent))" strokeWidth={2} />
+          )}
+        </ScatterChart>
+      </ChartContainer>
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-foreground/70">
+        <span>C3 ≤</span>
+        {C3_BANDS.map((factor, index) => (
+          <span key={factor} className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded-sm" style={{ backgroundColor: C3_COLORS[index] }} />
+            {(factor * plot.minC3).toFixed(1)}
+          </span>
+        ))}
+        <span>km²/s² · lines: arrival v∞ {plot.vInfinityContours.map(({ level }) => level.toFixed(1)).join(', ')} km/s</span>
+      </div>
+    </div>
+  );
+});
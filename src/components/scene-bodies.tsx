@@ -0,0 +1,208 @@
+import type { Comet } from '@/lib/comets';
+import type { CustomBody } from '@/lib/custom-bodies';
+import { MOON, type MoonState } from '@/lib/moon';
+import { RAD_TO_DEG, type Vector2 } from '@/lib/orbital-mechanics';
+import type { PlanetDefinition } from '@/lib/solar-system';
+
+// The scene may be turned as a whole (the co-rotating frame), so each body
+// is given a transform that turns its label back upright about (x, y).
+type Upright = (x: number, y: number) => string;
+
+const MOON_RADIUS = 4;
+const MOON_DISPLAY_DISTANCE = 34; // px at the Moon's mean distance; not to scale
+const MARKER_COLOR = '#F87171';
+
+// Half-disc on the +x side; rotating it to the Sun→body direction shades the night side.
+const nightPath = (radius: number) => `M 0,${-radius} A ${radius},${radius} 0 0 1 0,${radius} Z`;
+
+/** Degrees from the +x axis to a screen point, i.e. the Sun→body direction. */
+const screenAngle = ({ x, y }: Vector2) => Math.atan2(y, x) * RAD_TO_DEG;
+
+interface PlanetGlyphProps {
+  planet: PlanetDefinition;
+  screen: Vector2;
+  spin: number; // degrees
+  showMeridian: boolean; // mark a fixed meridian, to follow a resonant spin
+  upright: Upright;
+}
+
+export function PlanetGlyph({ planet, screen, spin, showMeridian, upright }: PlanetGlyphProps) {
+  const r = planet.displayRadius;
+  return (
+    <g transform={`translate(${screen.x}, ${screen.y})`}>
+      {planet.hasRings && (
+        <ellipse rx={r * 2.2} ry={r * 0.7} fill="none" stroke={planet.color} strokeWidth="1.5" opacity="0.6" transform={`rotate(${planet.axialTilt})`} />
+      )}
+      <g transform={`rotate(${planet.axialTilt})`}>
+        <g transform={`rotate(${spin})`}>
+          <circle r={r} fill={planet.color} />
+          <line x1="0" y1={-r - 2} x2="0" y2={r + 2} stroke="white" strokeWidth="0.75" opacity="0.6" />
+        </g>
+      </g>
+      <g transform={`rotate(${screenAngle(screen)})`}>
+        <path d={nightPath(r)} fill="black" opacity="0.45" />
+      </g>
+      {showMeridian && (
+        <g transform={`rotate(${spin})`}>
+          <line x1="0" y1="0" x2={r + 4} y2="0" stroke={MARKER_COLOR} strokeWidth="1" />
+          <circle cx={r} cy="0" r="1.25" fill={MARKER_COLOR} />
+        </g>
+      )}
+      <text y={r + 10} transform={upright(0, r + 10)} textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))" opacity="0.7">{planet.name}</text>
+    </g>
+  );
+}
+
+interface CustomBodyGlyphProps {
+  body: CustomBody;
+  orbitPath: string | null;
+  screen: Vector2;
+  upright: Upright;
+}
+
+export function CustomBodyGlyph({ body, orbitPath, screen, upright }: CustomBodyGlyphProps) {
+  return (
+    <g>
+      {orbitPath && <path d={orbitPath} fill="none" stroke={body.color} strokeWidth="1" strokeDasharray="4 4" opacity="0.4" />}
+      <g transform={`translate(${screen.x}, ${screen.y})`}>
+        <circle r={body.displayRadius} fill={body.color} />
+        <g transform={`rotate(${screenAngle(screen)})`}>
+          <path d={nightPath(body.displayRadius)} fill="black" opacity="0.45" />
+        </g>
+        <text y={body.displayRadius + 10} transform={upright(0, body.displayRadius + 10)} textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))" opacity="0.7">{body.name}</text>
+      </g>
+    </g>
+  );
+}
+
+interface CometGlyphProps {
+  comet: Comet;
+  orbitPath: string;
+  screen: Vector2;
+  tailAngle: number; // degrees
+  tailLength: number; // px
+  upright: Upright;
+}
+
+/** A comet on its orbit, with the tail fading out away from the nucleus. */
+export function CometGlyph({ comet, orbitPath, screen, tailAngle, tailLength, upright }: CometGlyphProps) {
+  return (
+    <g>
+      <path d={orbitPath} fill="none" stroke={comet.color} strokeWidth="0.75" strokeDasharray="2 3" opacity="0.5" />
+      <linearGradient id={`comet-tail-${comet.id}`}>
+        <stop offset="0%" stopColor={comet.color} stopOpacity="0.9" />
+        <stop offset="100%" stopColor={comet.color} stopOpacity="0" />
+      </linearGradient>
+      <g transform={`translate(${screen.x}, ${screen.y})`}>
+        {tailLength > 1 && (
+          <polygon
+            points={`0,-1.5 ${tailLength},${-tailLength / 6} ${tailLength},${tailLength / 6} 0,1.5`}
+            fill={`url(#comet-tail-${comet.id})`}
+            transform={`rotate(${tailAngle})`}
+          />
+        )}
+        <circle r="2.5" fill={comet.color} />
+        <text y="-6" transform={upright(0, -6)} textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))" opacity="0.7">{comet.name}</text>
+      </g>
+    </g>
+  );
+}
+
+interface EarthMoonGlyphProps {
+  screen: Vector2;
+  radius: number; // px
+  axialTilt: number; // degrees
+  spinAngle: number; // degrees, Greenwich against the stars
+  referenceAngle: number; // degrees, the direction rotation is measured from
+  moon: MoonState;
+  moonSpinAngle: number | null; // degrees, when the Moon's spin is shown
+  isEclipseSeason: boolean;
+  isSystemMode: boolean; // drawn smaller and labelled among the planets
+  upright: Upright;
+}
+
+/**
+ * Earth with its spin markers, and the Moon's orbit drawn around it at an
+ * exaggerated distance but in its true direction, so the Moon's phase
+ * matches the geometry on screen.
+ */
+export function EarthMoonGlyph({
+  screen,
+  radius,
+  axialTilt,
+  spinAngle,
+  referenceAngle,
+  moon,
+  moonSpinAngle,
+  isEclipseSeason,
+  isSystemMode,
+  upright,
+}: EarthMoonGlyphProps) {
+  const moonOrbitRadius = MOON_DISPLAY_DISTANCE * (isSystemMode ? 0.4 : 1);
+  const moonDistance = moonOrbitRadius * (moon.distance / MOON.semiMajorAxis);
+  const moonX = moonDistance * Math.cos(moon.longitude);
+  const moonY = moonDistance * Math.sin(moon.longitude);
+  const moonRadius = MOON_RADIUS * (isSystemMode ? 0.5 : 1);
+  // Sunlight arrives from the Sun's direction, which is effectively the same
+  // for Earth and the Moon.
+  const moonNightAngle = (moon.sunLongitude + Math.PI) * RAD_TO_DEG;
+
+  // The half of the Moon's orbit north of the ecliptic runs from the
+  // ascending node to the descending node.
+  const nodeX = moonOrbitRadius * Math.cos(moon.ascendingNode);
+  const nodeY = moonOrbitRadius * Math.sin(moon.ascendingNode);
+  const northHalf = `M ${nodeX},${nodeY} A ${moonOrbitRadius},${moonOrbitRadius} 0 0 1 ${-nodeX},${-nodeY}`;
+  const southHalf = `M ${-nodeX},${-nodeY} A ${moonOrbitRadius},${moonOrbitRadius} 0 0 1 ${nodeX},${nodeY}`;
+
+  return (
+    <g transform={`translate(${screen.x}, ${screen.y})`}>
+      <g transform={`rotate(${axialTilt})`}>
+        <g transform={`rotate(${spinAngle})`}>
+          <circle r={radius} fill="#3B82F6" />
+          <line x1="0" y1={-radius - 5} x2="0" y2={radius + 5} stroke="white" strokeWidth="1.5" opacity="0.7" />
+        </g>
+        <g transform={`rotate(${-axialTilt})`}>
+          <g transform={`rotate(${screenAngle(screen)})`}>
+            <path d={nightPath(radius)} fill="black" opacity="0.45" />
+          </g>
+        </g>
+      </g>
+      {/* Rotation reference (fixed star or Sun) and the Greenwich meridian */}
+      <g transform={`rotate(${referenceAngle})`}>
+        <line x1={radius + 2} y1="0" x2={radius + 14} y2="0" stroke="hsl(var(--accent))" strokeWidth="1" strokeDasharray="2 2" opacity="0.8" />
+      </g>
+      <g transform={`rotate(${spinAngle})`}>
+        <line x1="0" y1="0" x2={radius + 4} y2="0" stroke={MARKER_COLOR} strokeWidth="1.25" />
+        <circle cx={radius} cy="0" r="1.75" fill={MARKER_COLOR} />
+      </g>
+      {/* Moon: solid north of the ecliptic, dashed south, with the node line highlighted in eclipse season */}
+      <path d={northHalf} fill="none" stroke="hsl(var(--foreground))" strokeWidth="0.75" opacity="0.4" />
+      <path d={southHalf} fill="none" stroke="hsl(var(--foreground))" strokeWidth="0.5" strokeDasharray="2 3" opacity="0.3" />
+      <line
+        x1={nodeX * 1.3}
+        y1={nodeY * 1.3}
+        x2={-nodeX * 1.3}
+        y2={-nodeY * 1.3}
+        stroke={isEclipseSeason ? MARKER_COLOR : 'hsl(var(--accent))'}
+        strokeWidth="0.75"
+        opacity={isEclipseSeason ? 0.9 : 0.4}
+      />
+      <text x={nodeX * 1.45} y={nodeY * 1.45 + 3} transform={upright(nodeX * 1.45, nodeY * 1.45)} textAnchor="middle" fontSize="8" fill="hsl(var(--accent))" opacity="0.7">☊</text>
+      <g transform={`translate(${moonX}, ${moonY})`}>
+        <circle r={moonRadius} fill="#D1D5DB" />
+        <g transform={`rotate(${moonNightAngle})`}>
+          <path d={nightPath(moonRadius)} fill="black" opacity="0.6" />
+        </g>
+        {moonSpinAngle !== null && (
+          <g transform={`rotate(${moonSpinAngle})`}>
+            <line x1="0" y1="0" x2={moonRadius + 3} y2="0" stroke={MARKER_COLOR} strokeWidth="1" />
+            <circle cx={moonRadius} cy="0" r="1" fill={MARKER_COLOR} />
+          </g>
+        )}
+      </g>
+      {isSystemMode && (
+        <text y={radius + 10} transform={upright(0, radius + 10)} textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))" opacity="0.7">Earth</text>
+      )}
+    </g>
+  );
+}
@@ -0,0 +1,44 @@
+import { Leaf } from 'lucide-react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { Hemisphere, SeasonDefinition } from '@/lib/seasons';
+
+interface SeasonControlsProps {
+  hemisphere: Hemisphere;
+  onHemisphereChange: (hemisphere: Hemisphere) => void;
+  definition: SeasonDefinition;
+  onDefinitionChange: (definition: SeasonDefinition) => void;
+}
+
+export function SeasonControls({ hemisphere, onHemisphereChange, definition, onDefinitionChange }: SeasonControlsProps) {
+  return (
+    <div className="space-y-2 p-3 rounded-lg bg-primary/10">
+      <Label className="flex items-center gap-2 text-foreground/80"><Leaf size={16}/> Seasons</Label>
+      <div className="flex items-center gap-2">
+        <Select value={hemisphere} onValueChange={(value) => onHemisphereChange(value as Hemisphere)}>
+          <SelectTrigger className="flex-1 h-8" aria-label="Hemisphere">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="north">Northern Hemisphere</SelectItem>
+            <SelectItem value="south">Southern Hemisphere</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={definition} onValueChange={(value) => onDefinitionChange(value as SeasonDefinition)}>
+          <SelectTrigger className="flex-1 h-8" aria-label="Season definition">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="astronomical">Astronomical</SelectItem>
+            <SelectItem value="meteorological">Meteorological</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="text-xs text-foreground/60">
+        {definition === 'astronomical'
+          ? 'Seasons run between the equinoxes and solstices, found from the Sun\'s ecliptic longitude λ☉.'
+          : 'Seasons are whole months: March–May, June–August, September–November and December–February.'}
+      </p>
+    </div>
+  );
+}
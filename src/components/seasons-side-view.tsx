@@ -0,0 +1,155 @@
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { DEG_TO_RAD, type Vector2 } from '@/lib/orbital-mechanics';
+
+interface SeasonsSideViewProps {
+  declination: number; // degrees, the Sun's
+  obliquity: number; // degrees
+  latitude: number; // degrees, the chosen latitude
+  onLatitudeChange: (latitude: number) => void;
+}
+
+// Earth is seen edge-on, from a direction at right angles to both the
+// sunlight and its axis, so the terminator is a vertical line and each
+// latitude circle is a straight segment. The axis leans toward the Sun by
+// the declination.
+const EARTH_RADIUS = 90; // px
+const EARTH_X = 30; // px, the Sun is off to the left
+const RAY_SPACING = 20; // px
+const DAY_COLOR = '#FACC15';
+const LATITUDE_COLOR = '#F87171';
+
+function formatLatitude(latitude: number): string {
+  return `${Math.abs(latitude).toFixed(1)}°${latitude > 0 ? 'N' : latitude < 0 ? 'S' : ''}`;
+}
+
+/** Fraction of a latitude circle in sunlight: the sunrise hour angle over π. */
+function daylightFraction(latitude: number, declination: number): number {
+  const cosHourAngle = -Math.tan(latitude * DEG_TO_RAD) * Math.tan(declination * DEG_TO_RAD);
+  return cosHourAngle >= 1 ? 0 : cosHourAngle <= -1 ? 1 : Math.acos(cosHourAngle) / Math.PI;
+}
+
+export function SeasonsSideView({ declination, obliquity, latitude, onLatitudeChange }: SeasonsSideViewProps) {
+  const tilt = declination * DEG_TO_RAD;
+  const north: Vector2 = { x: -Math.sin(tilt), y: -Math.cos(tilt) };
+  const sunward: Vector2 = { x: -Math.cos(tilt), y: Math.sin(tilt) };
+
+  // A point on the limb at `lat` degrees, on the Sun's side (side = 1) or
+  // the far side (side = −1), relative to Earth's centre.
+  const limb = (lat: number, side: number, scale = 1): Vector2 => {
+    const phi = lat * DEG_TO_RAD;
+    return {
+      x: scale * EARTH_RADIUS * (Math.sin(phi) * north.x + side * Math.cos(phi) * sunward.x),
+      y: scale * EARTH_RADIUS * (Math.sin(phi) * north.y + side * Math.cos(phi) * sunward.y),
+    };
+  };
+
+  const circles = [
+    { latitude: 90 - obliquity, name: 'Arctic Circle' },
+    { latitude: obliquity, name: 'Tropic of Cancer' },
+    { latitude: 0, name: 'Equator' },
+    { latitude: -obliquity, name: 'Tropic of Capricorn' },
+    { latitude: obliquity - 90, name: 'Antarctic Circle' },
+  ];
+
+  // The chosen latitude, split where it crosses the terminator (x = 0).
+  const noonPoint = limb(latitude, 1);
+  const midnightPoint = limb(latitude, -1);
+  const crossing = noonPoint.x >= 0 ? 0 : midnightPoint.x <= 0 ? 1 : -noonPoint.x / (midnightPoint.x - noonPoint.x);
+  const terminatorPoint = {
+    x: noonPoint.x + crossing * (midnightPoint.x - noonPoint.x),
+    y: noonPoint.y + crossing * (midnightPoint.y - noonPoint.y),
+  };
+  const horizon = { x: -noonPoint.y / EARTH_RADIUS, y: noonPoint.x / EARTH_RADIUS };
+
+  const noonElevation = 90 - Math.abs(latitude - declination);
+  const daylight = daylightFraction(latitude, declination);
+  const northPole = limb(90, 0, 1.2);
+  const southPole = limb(-90, 0, 1.2);
+
+  return (
+    <div className="space-y-3">
+      <svg width="100%" viewBox="-200 -125 400 250" className="max-h-72" role="img" aria-label="Edge-on view of Earth in sunlight">
+        {/* Parallel sunlight from the left, stopping at the day side */}
+        {Array.from({ length: 9 }, (_, i) => (i - 4) * RAY_SPACING).map(y => {
+          const end = EARTH_X - Math.sqrt(EARTH_RADIUS * EARTH_RADIUS - y * y);
+          return (
+            <g key={y} opacity="0.5">
+              <line x1="-195" y1={y} x2={end - 4} y2={y} stroke={DAY_COLOR} strokeWidth="0.75" />
+              <polygon points={`${end},${y} ${end - 5},${y - 2} ${end - 5},${y + 2}`} fill={DAY_COLOR} />
+            </g>
+          );
+        })}
+        <text x="-195" y="-112" fontSize="8" fill={DAY_COLOR} opacity="0.8">Sunlight</text>
+
+        <g transform={`translate(${EARTH_X}, 0)`}>
+          {/* Day and night halves */}
+          <circle r={EARTH_RADIUS} fill="#1E3A8A" />
+          <path d={`M 0,${-EARTH_RADIUS} A ${EARTH_RADIUS} ${EARTH_RADIUS} 0 0 1 0,${EARTH_RADIUS} Z`} fill="black" opacity="0.55" />
+          <line x1="0" y1={-EARTH_RADIUS} x2="0" y2={EARTH_RADIUS} stroke="hsl(var(--foreground))" strokeWidth="0.5" strokeDasharray="2 3" opacity="0.4" />
+
+          {/* Axis, leaning toward or away from the Sun */}
+          <line x1={northPole.x} y1={northPole.y} x2={southPole.x} y2={southPole.y} stroke="hsl(var(--foreground))" strokeWidth="0.75" opacity="0.7" />
+          <text x={northPole.x * 1.1} y={northPole.y * 1.1 + 3} textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))">N</text>
+          <text x={southPole.x * 1.1} y={southPole.y * 1.1 + 3} textAnchor="middle" fontSize="8" fill="hsl(var(--foreground))">S</text>
+
+          {/* Equator, tropics and polar circles */}
+          {circles.map(circle => {
+            const a = limb(circle.latitude, 1);
+            const b = limb(circle.latitude, -1);
+            return (
+              <g key={circle.name}>
+                <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke="hsl(var(--accent))" strokeWidth="0.6" strokeDasharray={circle.latitude === 0 ? undefined : '3 2'} opacity="0.7" />
+                <text x={b.x + 4} y={b.y + 2.5} fontSize="7" fill="hsl(var(--accent))" opacity="0.8">{circle.name}</text>
+              </g>
+            );
+          })}
+
+          {/* The chosen latitude: lit part, dark part, and the noon Sun's elevation */}
+          <line x1={noonPoint.x} y1={noonPoint.y} x2={terminatorPoint.x} y2={terminatorPoint.y} stroke={DAY_COLOR} strokeWidth="2" />
+          <line x1={terminatorPoint.x} y1={terminatorPoint.y} x2={midnightPoint.x} y2={midnightPoint.y} stroke={LATITUDE_COLOR} strokeWidth="2" strokeDasharray="3 2" />
+          <line
+            x1={noonPoint.x - 22 * horizon.x}
+            y1={noonPoint.y - 22 * horizon.y}
+            x2={noonPoint.x + 22 * horizon.x}
+            y2={noonPoint.y + 22 * horizon.y}
+            stroke={LATITUDE_COLOR}
+            strokeWidth="1"
+          />
+          <line x1={noonPoint.x} y1={noonPoint.y} x2={noonPoint.x - 34} y2={noonPoint.y} stroke={DAY_COLOR} strokeWidth="1.25" />
+          <circle cx={noonPoint.x} cy={noonPoint.y} r="2.5" fill={LATITUDE_COLOR} />
+          <text x={noonPoint.x - 36} y={noonPoint.y - 5} textAnchor="end" fontSize="8" fill={LATITUDE_COLOR}>
+            {noonElevation > 0 ? `${noonElevation.toFixed(1)}°` : 'below horizon'}
+          </text>
+
+          {/* Where the Sun is overhead */}
+          <circle cx={-EARTH_RADIUS} cy="0" r="2" fill={DAY_COLOR} />
+        </g>
+      </svg>
+
+      <div className="space-y-1">
+        <Label className="text-foreground/80">Latitude: {formatLatitude(latitude)}</Label>
+        <Slider min={-90} max={90} step={0.5} value={[latitude]} onValueChange={(value) => onLatitudeChange(value[0])} aria-label="Latitude" />
+      </div>
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Sun Overhead At</p>
+          <p className="font-mono">{formatLatitude(declination)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Noon Elevation</p>
+          <p className="font-mono">{noonElevation.toFixed(1)}°</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">In Daylight</p>
+          <p className="font-mono">{(daylight * 100).toFixed(0)}% · {(daylight * 24).toFixed(1)} h</p>
+        </div>
+      </div>
+      <p className="text-xs text-foreground/60">
+        The axis keeps pointing the same way in space, so through the year it leans toward the Sun by up to {obliquity.toFixed(1)}° and
+        then away. The side leaning in gets a higher noon Sun and a longer share of each turn in daylight (the yellow part of the
+        chosen latitude); beyond the polar circles that share reaches all or nothing.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import {
+  SPIN_ORBIT_BODIES,
+  SPIN_ORBIT_RATIOS,
+  formatRatio,
+  getSpinOrbitBody,
+  resonantRotationPeriod,
+  solarDay,
+  type SpinOrbitBodyId,
+  type SpinOrbitRatio,
+} from '@/lib/spin-orbit';
+
+interface SpinOrbitControlsProps {
+  bodyId: SpinOrbitBodyId;
+  onBodyChange: (id: SpinOrbitBodyId) => void;
+  ratio: SpinOrbitRatio;
+  onRatioChange: (ratio: SpinOrbitRatio) => void;
+  subPrimaryLongitude: number; // radians
+}
+
+function formatDays(days: number): string {
+  return Number.isFinite(days) ? `${days.toFixed(2)} d` : '∞ (locked)';
+}
+
+export function SpinOrbitControls({ bodyId, onBodyChange, ratio, onRatioChange, subPrimaryLongitude }: SpinOrbitControlsProps) {
+  const body = getSpinOrbitBody(bodyId);
+  const rotationPeriod = resonantRotationPeriod(body.orbitalPeriod, ratio);
+  const isNatural = formatRatio(ratio) === formatRatio(body.resonance);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={bodyId} onValueChange={(id) => onBodyChange(id as SpinOrbitBodyId)}>
+          <SelectTrigger className="flex-1" aria-label="Body">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPIN_ORBIT_BODIES.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={formatRatio(ratio)}
+          onValueChange={(value) => onRatioChange(SPIN_ORBIT_RATIOS.find(option => formatRatio(option) === value) ?? body.resonance)}
+        >
+          <SelectTrigger className="flex-1" aria-label="Spin–orbit ratio">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SPIN_ORBIT_RATIOS.map(option => (
+              <SelectItem key={formatRatio(option)} value={formatRatio(option)}>
+                {formatRatio(option)}{formatRatio(option) === formatRatio(body.resonance) ? ` (real ${body.name})` : ''}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Rotation (sidereal)</p>
+          <p className="font-mono">{formatDays(rotationPeriod)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Orbit</p>
+          <p className="font-mono">{formatDays(body.orbitalPeriod)}</p>
+        </div>
+        {body.primary !== 'Sun' && (
+          <div className="p-2 rounded-lg bg-background/50">
+            <p className="text-xs font-semibold text-accent/80">Day relative to {body.primary}</p>
+            <p className="font-mono">{formatDays(solarDay(rotationPeriod, body.orbitalPeriod))}</p>
+          </div>
+        )}
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Solar Day</p>
+          <p className="font-mono">{formatDays(solarDay(rotationPeriod, body.yearLength))}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">{body.primary === 'Sun' ? 'Subsolar' : `Sub-${body.primary}`} Longitude</p>
+          <p className="font-mono">{(subPrimaryLongitude * RAD_TO_DEG).toFixed(1)}°</p>
+        </div>
+      </div>
+      <p className="text-xs text-foreground/60">
+        The red marker is the {body.name}'s reference meridian, which faces its primary at periapsis. A solar day is
+        1 / (1/rotation − 1/orbit): at 1:1 the same face always points at the primary, while at 3:2 Mercury turns 1.5 times
+        per orbit against the stars but only half a turn against the Sun, so noon to noon takes two Mercury years.
+        {!isNatural && ` The real ${body.name} spins ${formatRatio(body.resonance)}.`}
+      </p>
+    </div>
+  );
+}
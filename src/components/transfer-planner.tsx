@@ -0,0 +1,93 @@
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { dateFromJulianDate } from '@/lib/ephemeris';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { PLANETS, type PlanetId } from '@/lib/solar-system';
+import type { HohmannTransfer } from '@/lib/transfers';
+
+interface TransferPlannerProps {
+  origin: PlanetId;
+  destination: PlanetId;
+  onRouteChange: (origin: PlanetId, destination: PlanetId) => void;
+  transfer: HohmannTransfer;
+  currentPhaseAngle: number; // radians
+  launchWindow: number; // Julian date
+  currentJulianDate: number;
+  onJump: (julianDate: number) => void;
+}
+
+function formatDuration(days: number): string {
+  return days < 2 * 365.25 ? `${days.toFixed(0)} days` : `${(days / 365.25).toFixed(1)} years`;
+}
+
+export function TransferPlanner({
+  origin,
+  destination,
+  onRouteChange,
+  transfer,
+  currentPhaseAngle,
+  launchWindow,
+  currentJulianDate,
+  onJump,
+}: TransferPlannerProps) {
+  // Picking the planet already at the other end swaps the route round.
+  const selectOrigin = (id: PlanetId) => onRouteChange(id, id === destination ? origin : destination);
+  const selectDestination = (id: PlanetId) => onRouteChange(id === origin ? destination : origin, id);
+  const daysToWindow = launchWindow - currentJulianDate;
+
+  const planetSelect = (label: string, value: PlanetId, onChange: (id: PlanetId) => void) => (
+    <Select value={value} onValueChange={(id) => onChange(id as PlanetId)}>
+      <SelectTrigger className="flex-1" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {PLANETS.map(planet => (
+          <SelectItem key={planet.id} value={planet.id}>{planet.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        {planetSelect('Origin', origin, selectOrigin)}
+        <span className="text-foreground/60">→</span>
+        {planetSelect('Destination', destination, selectDestination)}
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-sm">
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Departure Δv</p>
+          <p className="font-mono">{transfer.departureDeltaV.toFixed(2)} km/s</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Arrival Δv</p>
+          <p className="font-mono">{transfer.arrivalDeltaV.toFixed(2)} km/s</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Transfer Time</p>
+          <p className="font-mono">{formatDuration(transfer.transferTime)}</p>
+        </div>
+        <div className="p-2 rounded-lg bg-background/50">
+          <p className="text-xs font-semibold text-accent/80">Phase Angle (now)</p>
+          <p className="font-mono">{(transfer.phaseAngle * RAD_TO_DEG).toFixed(1)}° ({(currentPhaseAngle * RAD_TO_DEG).toFixed(1)}°)</p>
+        </div>
+      </div>
+      <div className="flex items-center gap-2">
+        <div className="flex-1 text-sm">
+          <Label className="text-foreground/80">Next launch window</Label>
+          <p className="font-mono">
+            {dateFromJulianDate(launchWindow).toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })}
+            <span className="text-foreground/60"> · {daysToWindow < 1 ? 'open now' : `in ${formatDuration(daysToWindow)}`}</span>
+          </p>
+        </div>
+        <Button size="sm" variant="outline" onClick={() => onJump(launchWindow)}>Jump</Button>
+      </div>
+      <p className="text-xs text-foreground/60">
+        The cheapest two-burn route between circular, coplanar orbits. The Δv values are heliocentric (the speed to leave
+        and to match each planet), and the launch must wait until the destination leads the origin by the phase angle.
+      </p>
+    </div>
+  );
+}
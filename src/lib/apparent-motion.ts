@@ -0,0 +1,89 @@
+// Positions and apparent motion as seen from a body other than the Sun. From
+// Earth, a planet's ecliptic longitude usually increases, but around
+// opposition (or inferior conjunction) Earth overtakes it, or it overtakes
+// Earth, and the longitude runs backwards for a while: retrograde motion.
+// The turning points, where the longitude stands still, are the stations.
+
+import { wrapAngle, type Vector3 } from '@/lib/orbital-mechanics';
+import { heliocentricPosition } from '@/lib/ephemeris';
+import { getPlanet, type PlanetId } from '@/lib/solar-system';
+
+export type FrameOriginId = 'sun' | PlanetId;
+
+export interface RetrogradePeriod {
+  start: number; // Julian date of the retrograde station
+  end: number; // Julian date of the direct station
+}
+
+// Stations are bracketed on a two-day grid, then refined by bisection. The
+// scan starts this far before the window so a loop already under way at
+// its start is still found complete (Neptune's last ~160 days).
+const STATION_SCAN_STEP = 2; // days
+const STATION_SCAN_MARGIN = 200; // days
+const RATE_INTERVAL = 0.5; // days either side for the longitude rate
+
+function heliocentric(id: FrameOriginId, jd: number): Vector3 {
+  if (id === 'sun') return { x: 0, y: 0, z: 0 };
+  const { x, y, z } = heliocentricPosition(getPlanet(id).elements, jd);
+  return { x, y, z };
+}
+
+/** Position of `target` relative to `origin` in AU (J2000 ecliptic axes). */
+export function relativePosition(target: FrameOriginId, origin: FrameOriginId, jd: number): Vector3 {
+  const a = heliocentric(target, jd);
+  const b = heliocentric(origin, jd);
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z };
+}
+
+/** Ecliptic longitude of `target` as seen from `origin`, radians. */
+export function apparentLongitude(target: FrameOriginId, origin: FrameOriginId, jd: number): number {
+  const { x, y } = relativePosition(target, origin, jd);
+  return Math.atan2(y, x);
+}
+
+/** Rate of change of the apparent longitude, radians per day; negative when retrograde. */
+export function apparentLongitudeRate(target: FrameOriginId, origin: FrameOriginId, jd: number): number {
+  const change = wrapAngle(apparentLongitude(target, origin, jd + RATE_INTERVAL) - apparentLongitude(target, origin, jd - RATE_INTERVAL));
+  return change / (2 * RATE_INTERVAL);
+}
+
+/** `count` + 1 relative positions at equal steps from `start` to `end`. */
+export function apparentPath(target: FrameOriginId, origin: FrameOriginId, start: number, end: number, count: number): Vector3[] {
+  return Array.from({ length: count + 1 }, (_, i) => relativePosition(target, origin, start + ((end - start) * i) / count));
+}
+
+/** The complete retrograde periods of `target` seen from `origin` that overlap `start`–`end`. */
+export function retrogradePeriods(target: FrameOriginId, origin: FrameOriginId, start: number, end: number): RetrogradePeriod[] {
+  if (target === origin) return [];
+  const rate = (jd: number) => apparentLongitudeRate(target, origin, jd);
+  const station = (before: number, after: number) => {
+    const isRetrogradeBefore = rate(before) < 0;
+    for (let i = 0; i < 30; i++) {
+      const mid = (before + after) / 2;
+      if (rate(mid) < 0 === isRetrogradeBefore) before = mid;
+      else after = mid;
+    }
+    return (before + after) / 2;
+  };
+
+  // The direction of motion between successive grid points; a station lies
+  // within the two steps either side of a point where it flips.
+  const first = start - STATION_SCAN_MARGIN;
+  const count = Math.ceil((end - start + 2 * STATION_SCAN_MARGIN) / STATION_SCAN_STEP);
+  const longitudes = Array.from({ length: count + 1 }, (_, i) => apparentLongitude(target, origin, first + i * STATION_SCAN_STEP));
+  const isRetrogradeStep = (i: number) => Math.sin(longitudes[i + 1] - longitudes[i]) < 0;
+
+  const periods: RetrogradePeriod[] = [];
+  let retrogradeStart: number | null = null;
+  for (let i = 1; i < count; i++) {
+    const isRetrograde = isRetrogradeStep(i);
+    if (isRetrograde === isRetrogradeStep(i - 1)) continue;
+    const jdStation = station(first + (i - 1) * STATION_SCAN_STEP, first + (i + 1) * STATION_SCAN_STEP);
+    if (isRetrograde) retrogradeStart = jdStation;
+    else if (retrogradeStart !== null) {
+      if (jdStation >= start && retrogradeStart <= end) periods.push({ start: retrogradeStart, end: jdStation });
+      retrogradeStart = null;
+    }
+  }
+  return periods;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  KIRKWOOD_GAPS,
+  PLUTINO_RESONANCE,
+  beltPositions,
+  clearResonances,
+  sampleBelt,
+  semiMajorAxisHistogram,
+} from '@/lib/belts';
+
+const gap = (label: string) => KIRKWOOD_GAPS.find(resonance => resonance.label === label)!.semiMajorAxis;
+
+describe('resonances', () => {
+  // Observed centres of the Kirkwood gaps and of the plutinos.
+  it('sits where the gaps are observed', () => {
+    expect(gap('3:1')).toBeCloseTo(2.5, 1);
+    expect(gap('5:2')).toBeCloseTo(2.82, 1);
+    expect(gap('7:3')).toBeCloseTo(2.95, 1);
+    expect(gap('2:1')).toBeCloseTo(3.27, 1);
+    expect(PLUTINO_RESONANCE.semiMajorAxis).toBeCloseTo(39.4, 0);
+  });
+});
+
+describe('sampleBelt', () => {
+  it('gives the same belt for the same seed', () => {
+    expect(sampleBelt('main', 100, 7).semiMajorAxis).toEqual(sampleBelt('main', 100, 7).semiMajorAxis);
+    expect(sampleBelt('main', 100, 7).semiMajorAxis).not.toEqual(sampleBelt('main', 100, 8).semiMajorAxis);
+  });
+
+  it('keeps the main belt between Mars and Jupiter', () => {
+    const belt = sampleBelt('main', 2000);
+    expect(Math.min(...belt.semiMajorAxis)).toBeGreaterThan(2);
+    expect(Math.max(...belt.semiMajorAxis)).toBeLessThan(4.1);
+    expect(Math.max(...belt.eccentricity)).toBeLessThanOrEqual(0.35);
+  });
+});
+
+describe('clearResonances', () => {
+  it('empties the gaps and keeps everything else', () => {
+    const belt = sampleBelt('main', 2000);
+    const sculpted = clearResonances(belt, KIRKWOOD_GAPS);
+    const inGap = (a: number) => KIRKWOOD_GAPS.some(({ semiMajorAxis, halfWidth }) => Math.abs(a - semiMajorAxis) < halfWidth);
+    expect(sculpted.semiMajorAxis.some(inGap)).toBe(false);
+    expect(sculpted.count).toBe(belt.semiMajorAxis.filter(a => !inGap(a)).length);
+    expect(sculpted.count).toBeGreaterThan(0);
+  });
+});
+
+describe('beltPositions', () => {
+  it('keeps each particle between its perihelion and aphelion', () => {
+    const belt = sampleBelt('kuiper', 500);
+    const positions = beltPositions(belt, 2460000.5);
+    for (let i = 0; i < belt.count; i++) {
+      const r = Math.hypot(positions[2 * i], positions[2 * i + 1]);
+      expect(r).toBeLessThanOrEqual(belt.semiMajorAxis[i] * (1 + belt.eccentricity[i]) + 1e-9);
+    }
+  });
+});
+
+describe('semiMajorAxisHistogram', () => {
+  it('counts every particle in range once', () => {
+    const belt = sampleBelt('main', 2000);
+    const bins = semiMajorAxisHistogram(belt, 2, 4.2, 0.02);
+    expect(bins).toHaveLength(110);
+    expect(bins.reduce((sum, bin) => sum + bin.count, 0)).toBe(belt.count);
+  });
+});
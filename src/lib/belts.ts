@@ -0,0 +1,194 @@
+// Asteroid-belt and Kuiper-belt populations of massless test particles.
+// Orbits are sampled once from simple fits to the observed distributions
+// of a, e and i, and moved along fixed Kepler ellipses, so thousands of
+// them stay cheap. Elements are kept in typed arrays rather than objects.
+//
+// Jupiter's influence is not integrated: particles in its strongest
+// mean-motion resonances have their eccentricities pumped until they cross
+// Mars's orbit and are removed within a few million years, so "sculpting"
+// simply clears those bands and leaves the Kirkwood gaps.
+
+import { TWO_PI, solveKepler } from '@/lib/orbital-mechanics';
+import { PLANET_MEAN_ELEMENTS } from '@/lib/ephemeris';
+import { GAUSSIAN_GRAVITATIONAL_CONSTANT } from '@/lib/n-body';
+
+export type BeltId = 'main' | 'kuiper';
+
+export interface BeltPopulation {
+  id: BeltId;
+  count: number;
+  semiMajorAxis: Float64Array; // AU
+  eccentricity: Float64Array;
+  inclination: Float64Array; // radians
+  ascendingNode: Float64Array; // radians
+  argumentOfPeriapsis: Float64Array; // radians
+  meanAnomaly: Float64Array; // radians at BELT_EPOCH
+}
+
+export interface Resonance {
+  label: string; // the usual name, e.g. "3:1"
+  semiMajorAxis: number; // AU
+  halfWidth: number; // AU cleared either side when sculpted
+}
+
+/** Mean anomalies are sampled at J2000. */
+export const BELT_EPOCH = 2451545.0;
+
+const JUPITER_SEMI_MAJOR_AXIS = PLANET_MEAN_ELEMENTS.jupiter.semiMajorAxis[0];
+const NEPTUNE_SEMI_MAJOR_AXIS = PLANET_MEAN_ELEMENTS.neptune.semiMajorAxis[0];
+
+// Kepler's third law puts a p:q resonance (p asteroid orbits per q of the
+// planet) at a = a_planet·(q/p)^(2/3).
+const resonance = (label: string, p: number, q: number, planetSemiMajorAxis: number, halfWidth: number): Resonance => ({
+  label,
+  semiMajorAxis: planetSemiMajorAxis * Math.pow(q / p, 2 / 3),
+  halfWidth,
+});
+
+/** Jupiter's resonances that empty the Kirkwood gaps, widest first. */
+export const KIRKWOOD_GAPS: Resonance[] = [
+  resonance('2:1', 2, 1, JUPITER_SEMI_MAJOR_AXIS, 0.05),
+  resonance('3:1', 3, 1, JUPITER_SEMI_MAJOR_AXIS, 0.03),
+  resonance('5:2', 5, 2, JUPITER_SEMI_MAJOR_AXIS, 0.02),
+  resonance('7:3', 7, 3, JUPITER_SEMI_MAJOR_AXIS, 0.012),
+];
+
+/** Neptune's 3:2 resonance (two orbits per three of Neptune's), home of the plutinos and Pluto. */
+export const PLUTINO_RESONANCE = resonance('3:2', 2, 3, NEPTUNE_SEMI_MAJOR_AXIS, 0.3);
+
+/** Small, seedable generator (mulberry32), so every load shows the same belt. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Eccentricities and inclinations of dynamically "warm" populations follow
+// roughly Rayleigh distributions with the given scale.
+const rayleigh = (random: () => number, sigma: number) => sigma * Math.sqrt(-2 * Math.log(1 - random()));
+const uniform = (random: () => number, min: number, max: number) => min + (max - min) * random();
+
+interface SubPopulation {
+  share: number; // fraction of the particles
+  semiMajorAxis: (random: () => number) => number;
+  eccentricity: number; // Rayleigh scale
+  maxEccentricity: number;
+  inclination: number; // Rayleigh scale, degrees
+}
+
+const SUB_POPULATIONS: Record<BeltId, SubPopulation[]> = {
+  // The main belt thins out towards its outer edge; the Hildas sit in
+  // Jupiter's stable 3:2 resonance just inside 4 AU.
+  main: [
+    { share: 0.35, semiMajorAxis: random => uniform(random, 2.1, 2.5), eccentricity: 0.12, maxEccentricity: 0.35, inclination: 6 },
+    { share: 0.35, semiMajorAxis: random => uniform(random, 2.5, 2.95), eccentricity: 0.12, maxEccentricity: 0.35, inclination: 8 },
+    { share: 0.25, semiMajorAxis: random => uniform(random, 2.95, 3.45), eccentricity: 0.1, maxEccentricity: 0.3, inclination: 9 },
+    { share: 0.05, semiMajorAxis: random => 3.97 + 0.04 * (random() - 0.5), eccentricity: 0.15, maxEccentricity: 0.3, inclination: 7 },
+  ],
+  // Cold classicals (flat, nearly circular), hot classicals, plutinos and a
+  // sparse scattered disk on long, eccentric orbits.
+  kuiper: [
+    { share: 0.35, semiMajorAxis: random => uniform(random, 42.5, 47), eccentricity: 0.04, maxEccentricity: 0.12, inclination: 2 },
+    { share: 0.3, semiMajorAxis: random => uniform(random, 40, 48), eccentricity: 0.08, maxEccentricity: 0.25, inclination: 12 },
+    {
+      share: 0.2,
+      semiMajorAxis: random => PLUTINO_RESONANCE.semiMajorAxis + PLUTINO_RESONANCE.halfWidth * (2 * random() - 1),
+      eccentricity: 0.15,
+      maxEccentricity: 0.33,
+      inclination: 10,
+    },
+    { share: 0.15, semiMajorAxis: random => uniform(random, 50, 90), eccentricity: 0.35, maxEccentricity: 0.6, inclination: 15 },
+  ],
+};
+
+/** Samples `count` particles for a belt. The same seed always gives the same belt. */
+export function sampleBelt(id: BeltId, count: number, seed = 1): BeltPopulation {
+  const random = seededRandom(seed);
+  const population: BeltPopulation = {
+    id,
+    count,
+    semiMajorAxis: new Float64Array(count),
+    eccentricity: new Float64Array(count),
+    inclination: new Float64Array(count),
+    ascendingNode: new Float64Array(count),
+    argumentOfPeriapsis: new Float64Array(count),
+    meanAnomaly: new Float64Array(count),
+  };
+  const groups = SUB_POPULATIONS[id];
+  for (let i = 0; i < count; i++) {
+    let pick = random();
+    const group = groups.find(candidate => (pick -= candidate.share) < 0) ?? groups[groups.length - 1];
+    population.semiMajorAxis[i] = group.semiMajorAxis(random);
+    population.eccentricity[i] = Math.min(rayleigh(random, group.eccentricity), group.maxEccentricity);
+    population.inclination[i] = (rayleigh(random, group.inclination) * Math.PI) / 180;
+    population.ascendingNode[i] = TWO_PI * random();
+    population.argumentOfPeriapsis[i] = TWO_PI * random();
+    population.meanAnomaly[i] = TWO_PI * random();
+  }
+  return population;
+}
+
+/** The particles whose semi-major axes fall outside every resonance band. */
+export function clearResonances(population: BeltPopulation, resonances: Resonance[]): BeltPopulation {
+  const keep: number[] = [];
+  for (let i = 0; i < population.count; i++) {
+    const a = population.semiMajorAxis[i];
+    if (!resonances.some(res => Math.abs(a - res.semiMajorAxis) < res.halfWidth)) keep.push(i);
+  }
+  const pick = (values: Float64Array) => Float64Array.from(keep, i => values[i]);
+  return {
+    id: population.id,
+    count: keep.length,
+    semiMajorAxis: pick(population.semiMajorAxis),
+    eccentricity: pick(population.eccentricity),
+    inclination: pick(population.inclination),
+    ascendingNode: pick(population.ascendingNode),
+    argumentOfPeriapsis: pick(population.argumentOfPeriapsis),
+    meanAnomaly: pick(population.meanAnomaly),
+  };
+}
+
+/**
+ * Heliocentric ecliptic x, y (AU) of every particle at `jd`, interleaved in
+ * one array. Pass `out` to reuse the buffer between frames.
+ */
+export function beltPositions(population: BeltPopulation, jd: number, out: Float64Array = new Float64Array(population.count * 2)): Float64Array {
+  const elapsed = jd - BELT_EPOCH;
+  for (let i = 0; i < population.count; i++) {
+    const a = population.semiMajorAxis[i];
+    const e = population.eccentricity[i];
+    const meanMotion = GAUSSIAN_GRAVITATIONAL_CONSTANT / Math.pow(a, 1.5); // radians per day
+    const E = solveKepler(population.meanAnomaly[i] + meanMotion * elapsed, e);
+    const xOrb = a * (Math.cos(E) - e);
+    const yOrb = a * Math.sqrt(1 - e * e) * Math.sin(E);
+
+    const omega = population.argumentOfPeriapsis[i];
+    const node = population.ascendingNode[i];
+    const cosI = Math.cos(population.inclination[i]);
+    const cosO = Math.cos(omega), sinO = Math.sin(omega);
+    const cosN = Math.cos(node), sinN = Math.sin(node);
+    out[2 * i] = (cosO * cosN - sinO * sinN * cosI) * xOrb + (-sinO * cosN - cosO * sinN * cosI) * yOrb;
+    out[2 * i + 1] = (cosO * sinN + sinO * cosN * cosI) * xOrb + (-sinO * sinN + cosO * cosN * cosI) * yOrb;
+  }
+  return out;
+}
+
+export interface HistogramBin {
+  semiMajorAxis: number; // AU, bin centre
+  count: number;
+}
+
+/** Counts of particles per `binWidth` AU of semi-major axis between `min` and `max`. */
+export function semiMajorAxisHistogram(population: BeltPopulation, min: number, max: number, binWidth: number): HistogramBin[] {
+  const bins = Array.from({ length: Math.round((max - min) / binWidth) }, (_, i) => ({ semiMajorAxis: min + (i + 0.5) * binWidth, count: 0 }));
+  for (let i = 0; i < population.count; i++) {
+    const index = Math.floor((population.semiMajorAxis[i] - min) / binWidth);
+    if (index >= 0 && index < bins.length) bins[index].count++;
+  }
+  return bins;
+}
@@ -0,0 +1,111 @@
+// Binary-star scenario: two stars on Keplerian orbits about their common
+// barycenter and a massless planet that circles one star (S-type) or both
+// (P-type). The planet's fate comes from the N-body integrator; the
+// predicted stability limit is the empirical fit of Holman & Wiegert (1999).
+
+import { G, relativeState, type NBodySystem } from '@/lib/n-body';
+
+export type StarTypeId = 'O' | 'B' | 'A' | 'F' | 'G' | 'K' | 'M';
+
+export interface StarType {
+  id: StarTypeId;
+  name: string;
+  gradient: [string, string, string]; // core, middle, limb
+}
+
+export const STAR_TYPES: StarType[] = [
+  { id: 'O', name: 'O (blue)', gradient: ['#EEF2FF', '#A5B4FC', '#4F46E5'] },
+  { id: 'B', name: 'B (blue-white)', gradient: ['#F0F9FF', '#BAE6FD', '#3B82F6'] },
+  { id: 'A', name: 'A (white)', gradient: ['#FFFFFF', '#E0F2FE', '#93C5FD'] },
+  { id: 'F', name: 'F (yellow-white)', gradient: ['#FFFFFF', '#FEF9C3', '#FACC15'] },
+  { id: 'G', name: 'G (yellow, Sun-like)', gradient: ['#FFFBEB', '#FDE68A', '#F97316'] },
+  { id: 'K', name: 'K (orange)', gradient: ['#FFF7ED', '#FDBA74', '#EA580C'] },
+  { id: 'M', name: 'M (red)', gradient: ['#FEF2F2', '#F87171', '#B91C1C'] },
+];
+
+export function getStarType(id: StarTypeId): StarType {
+  return STAR_TYPES.find(type => type.id === id) ?? STAR_TYPES[4];
+}
+
+export type PlanetOrbitType = 'S' | 'P';
+
+export interface BinaryConfig {
+  primaryMass: number; // solar masses
+  secondaryMass: number;
+  separation: number; // AU, semi-major axis of the stars' relative orbit
+  eccentricity: number; // of the stars' relative orbit
+  planetType: PlanetOrbitType;
+  planetDistance: number; // AU, from the primary (S-type) or the barycenter (P-type)
+}
+
+/** Secondary's share of the total mass, μ = m₂ / (m₁ + m₂). */
+export function massRatio({ primaryMass, secondaryMass }: BinaryConfig): number {
+  return secondaryMass / (primaryMass + secondaryMass);
+}
+
+/** Orbital period of the stars in days. */
+export function binaryPeriod({ primaryMass, secondaryMass, separation }: BinaryConfig): number {
+  return 2 * Math.PI * Math.sqrt((separation * separation * separation) / (G * (primaryMass + secondaryMass)));
+}
+
+/**
+ * Holman & Wiegert (1999) critical semi-major axis in AU: S-type planets are
+ * stable inside it, P-type planets outside it. The fits cover μ = 0.1–0.9
+ * (S-type) and μ = 0.1–0.5 (P-type) with e ≤ 0.7–0.8.
+ */
+export function criticalDistance(config: BinaryConfig): number {
+  const mu = massRatio(config);
+  const e = config.eccentricity;
+  const ratio = config.planetType === 'S'
+    ? 0.464 - 0.38 * mu - 0.631 * e + 0.586 * mu * e + 0.15 * e * e - 0.198 * mu * e * e
+    : 1.6 + 5.1 * e - 2.22 * e * e + 4.12 * mu - 4.27 * e * mu - 5.09 * mu * mu + 4.61 * e * e * mu * mu;
+  return ratio * config.separation;
+}
+
+export function isPredictedStable(config: BinaryConfig): boolean {
+  const limit = criticalDistance(config);
+  return config.planetType === 'S' ? config.planetDistance < limit : config.planetDistance > limit;
+}
+
+/**
+ * Initial state in the barycentric frame: the stars at apoapsis on the x
+ * axis, and the planet on a circular orbit about its host starting on the
+ * y axis, where the stars' pull is most symmetric.
+ */
+export function binarySystem(config: BinaryConfig): NBodySystem {
+  const { primaryMass: m1, secondaryMass: m2, separation, eccentricity, planetDistance } = config;
+  const totalMass = m1 + m2;
+  const apoapsis = separation * (1 + eccentricity);
+  const relativeSpeed = Math.sqrt((G * totalMass * (1 - eccentricity)) / apoapsis);
+
+  const primary = { id: 'primary', mass: m1, x: (-m2 / totalMass) * apoapsis, y: 0, z: 0, vx: 0, vy: (-m2 / totalMass) * relativeSpeed, vz: 0 };
+  const secondary = { id: 'secondary', mass: m2, x: (m1 / totalMass) * apoapsis, y: 0, z: 0, vx: 0, vy: (m1 / totalMass) * relativeSpeed, vz: 0 };
+
+  const host = config.planetType === 'S'
+    ? { x: primary.x, y: primary.y, vx: primary.vx, vy: primary.vy, mass: m1 }
+    : { x: 0, y: 0, vx: 0, vy: 0, mass: totalMass };
+  const planetSpeed = Math.sqrt((G * host.mass) / planetDistance);
+  const planet = { id: 'planet', mass: 0, x: host.x, y: host.y + planetDistance, z: 0, vx: host.vx - planetSpeed, vy: host.vy, vz: 0 };
+
+  return { julianDate: 0, particles: [primary, secondary, planet] };
+}
+
+export type PlanetFate = 'orbiting' | 'ejected' | 'captured';
+
+/**
+ * Whether the planet still orbits its original host. An S-type planet that
+ * ends up bound to the other star counts as captured.
+ */
+export function planetFate(system: NBodySystem, config: BinaryConfig): PlanetFate {
+  if (config.planetType === 'P') {
+    const planet = system.particles.find(p => p.id === 'planet')!;
+    const distance = Math.hypot(planet.x, planet.y);
+    const speedSquared = planet.vx * planet.vx + planet.vy * planet.vy;
+    const bound = speedSquared / 2 - (G * (config.primaryMass + config.secondaryMass)) / distance < 0;
+    return bound ? 'orbiting' : 'ejected';
+  }
+  const aroundPrimary = relativeState(system, 'planet', 'primary')!;
+  if (aroundPrimary.orbit.eccentricity < 1 && aroundPrimary.orbit.semiMajorAxis < config.separation) return 'orbiting';
+  const aroundSecondary = relativeState(system, 'planet', 'secondary')!;
+  return aroundSecondary.orbit.eccentricity < 1 && aroundSecondary.orbit.semiMajorAxis < config.separation ? 'captured' : 'ejected';
+}
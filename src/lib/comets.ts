@@ -0,0 +1,131 @@
+// Comets and other small bodies on orbits of any eccentricity. Comet orbits
+// are catalogued by perihelion distance and time rather than mean elements,
+// because the semi-major axis is infinite for a parabola and negative for a
+// hyperbola. Positions are two-body (Sun only), also in N-body mode.
+
+import { DEG_TO_RAD, conicStateAtTime, type Vector3 } from '@/lib/orbital-mechanics';
+import { G } from '@/lib/n-body';
+
+export type CometId = 'halley' | 'hale-bopp' | 'oumuamua';
+
+export interface Comet {
+  id: CometId;
+  name: string;
+  perihelionDistance: number; // AU
+  eccentricity: number;
+  inclination: number; // degrees, J2000 ecliptic
+  longitudeOfAscendingNode: number; // degrees
+  argumentOfPerihelion: number; // degrees
+  perihelionTime: number; // Julian date
+  color: string;
+}
+
+// Osculating elements near each perihelion (JPL Small-Body Database).
+export const COMETS: Comet[] = [
+  {
+    id: 'halley',
+    name: '1P/Halley',
+    perihelionDistance: 0.58598,
+    eccentricity: 0.96714,
+    inclination: 162.2627,
+    longitudeOfAscendingNode: 58.4201,
+    argumentOfPerihelion: 111.3325,
+    perihelionTime: 2446470.9589, // 1986 Feb 9.46
+    color: '#A5F3FC',
+  },
+  {
+    id: 'hale-bopp',
+    name: 'C/1995 O1 Hale-Bopp',
+    perihelionDistance: 0.91423,
+    eccentricity: 0.99509,
+    inclination: 89.4297,
+    longitudeOfAscendingNode: 282.4707,
+    argumentOfPerihelion: 130.5887,
+    perihelionTime: 2450539.6378, // 1997 Apr 1.14
+    color: '#BFDBFE',
+  },
+  {
+    id: 'oumuamua',
+    name: "1I/ʻOumuamua",
+    perihelionDistance: 0.25589,
+    eccentricity: 1.20113,
+    inclination: 122.7417,
+    longitudeOfAscendingNode: 24.5969,
+    argumentOfPerihelion: 241.8105,
+    perihelionTime: 2458006.0071, // 2017 Sep 9.51
+    color: '#FCA5A5',
+  },
+];
+
+export function getComet(id: CometId): Comet {
+  return COMETS.find(comet => comet.id === id) ?? COMETS[0];
+}
+
+export function isBound(comet: Pick<Comet, 'eccentricity'>): boolean {
+  return comet.eccentricity < 1;
+}
+
+/** Orbital period in days, or Infinity on a parabolic or hyperbolic orbit. */
+export function cometPeriod(comet: Comet): number {
+  if (!isBound(comet)) return Infinity;
+  const a = comet.perihelionDistance / (1 - comet.eccentricity);
+  return 2 * Math.PI * Math.sqrt((a * a * a) / G);
+}
+
+/** Aphelion distance in AU, or Infinity on an open orbit. */
+export function aphelionDistance(comet: Comet): number {
+  return isBound(comet) ? (comet.perihelionDistance * (1 + comet.eccentricity)) / (1 - comet.eccentricity) : Infinity;
+}
+
+/** Heliocentric ecliptic position (AU) at true anomaly `trueAnomaly` radians. */
+export function cometOrbitPoint(comet: Comet, trueAnomaly: number): Vector3 {
+  const { perihelionDistance: q, eccentricity: e } = comet;
+  const r = (q * (1 + e)) / (1 + e * Math.cos(trueAnomaly));
+  const u = comet.argumentOfPerihelion * DEG_TO_RAD + trueAnomaly; // argument of latitude
+  const node = comet.longitudeOfAscendingNode * DEG_TO_RAD;
+  const i = comet.inclination * DEG_TO_RAD;
+  return {
+    x: r * (Math.cos(node) * Math.cos(u) - Math.sin(node) * Math.sin(u) * Math.cos(i)),
+    y: r * (Math.sin(node) * Math.cos(u) + Math.cos(node) * Math.sin(u) * Math.cos(i)),
+    z: r * Math.sin(u) * Math.sin(i),
+  };
+}
+
+export interface CometPosition extends Vector3 {
+  radius: number; // AU from the Sun
+  trueAnomaly: number;
+}
+
+export function cometPosition(comet: Comet, jd: number): CometPosition {
+  const { trueAnomaly, radius } = conicStateAtTime(comet.perihelionDistance, comet.eccentricity, jd - comet.perihelionTime, G);
+  return { ...cometOrbitPoint(comet, trueAnomaly), radius, trueAnomaly };
+}
+
+/**
+ * True anomaly at which the orbit reaches `maxDistance` AU, for drawing the
+ * part of it near the Sun; π if the whole ellipse fits inside.
+ */
+export function trueAnomalyLimit(comet: Comet, maxDistance: number): number {
+  if (aphelionDistance(comet) <= maxDistance) return Math.PI;
+  const semiLatusRectum = comet.perihelionDistance * (1 + comet.eccentricity);
+  return Math.acos((semiLatusRectum / maxDistance - 1) / comet.eccentricity);
+}
+
+/** The perihelion passage closest to `jd` (there is only one on an open orbit). */
+export function nearestPerihelion(comet: Comet, jd: number): number {
+  const period = cometPeriod(comet);
+  if (!Number.isFinite(period)) return comet.perihelionTime;
+  return comet.perihelionTime + Math.round((jd - comet.perihelionTime) / period) * period;
+}
+
+// Ices start to sublimate around 3–5 AU, and the gas and dust released grow
+// roughly with the sunlight received, i.e. as 1/r².
+const ACTIVITY_LIMIT = 4; // AU
+const FULL_ACTIVITY = 0.5; // AU
+
+/** Tail strength from 0 (inactive, beyond ~4 AU) to 1 (within ~0.5 AU of the Sun). */
+export function tailStrength(distance: number): number {
+  const flux = (r: number) => 1 / (r * r);
+  const strength = (flux(distance) - flux(ACTIVITY_LIMIT)) / (flux(FULL_ACTIVITY) - flux(ACTIVITY_LIMIT));
+  return Math.min(1, Math.max(0, strength));
+}
@@ -0,0 +1,61 @@
+// Marching squares over a regular grid, for drawing iso-lines of a scalar
+// field as SVG paths.
+
+export interface ContourGrid {
+  values: number[][]; // values[row][column]
+  x0: number; // position of column 0
+  y0: number; // position of row 0
+  spacing: number; // distance between neighbouring samples
+}
+
+/** Samples `field` on a square grid covering [x0, x0 + (n − 1)·spacing] in both axes. */
+export function sampleGrid(field: (x: number, y: number) => number, x0: number, y0: number, spacing: number, size: number): ContourGrid {
+  const values = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => field(x0 + column * spacing, y0 + row * spacing))
+  );
+  return { values, x0, y0, spacing };
+}
+
+/**
+ * SVG path data for the iso-line `level`, as independent segments (one per
+ * grid cell crossed). Saddle cells are resolved with the cell's mean value.
+ */
+export function contourPath({ values, x0, y0, spacing }: ContourGrid, level: number): string {
+  const segments: string[] = [];
+  const point = (column: number, row: number) => `${(x0 + column * spacing).toFixed(1)},${(y0 + row * spacing).toFixed(1)}`;
+
+  for (let row = 0; row < values.length - 1; row++) {
+    for (let column = 0; column < values[row].length - 1; column++) {
+      const corners = [values[row][column], values[row][column + 1], values[row + 1][column + 1], values[row + 1][column]];
+      const above = corners.filter(value => value >= level).length;
+      if (above === 0 || above === 4 || corners.some(value => !Number.isFinite(value))) continue;
+
+      // Where the level crosses each edge (top, right, bottom, left), if it does.
+      const crossing = (a: number, b: number) => (level - a) / (b - a);
+      const edges = [
+        [corners[0], corners[1], (t: number) => point(column + t, row)],
+        [corners[1], corners[2], (t: number) => point(column + 1, row + t)],
+        [corners[3], corners[2], (t: number) => point(column + t, row + 1)],
+        [corners[0], corners[3], (t: number) => point(column, row + t)],
+      ] as const;
+      const crossed = edges
+        .map(([a, b, at], index) => ((a < level) !== (b < level) ? { index, at: at(crossing(a, b)) } : null))
+        .filter(edge => edge !== null);
+
+      if (crossed.length === 2) {
+        segments.push(`M ${crossed[0].at} L ${crossed[1].at}`);
+      } else if (crossed.length === 4) {
+        // Saddle: pair the edges so the side matching the centre stays connected.
+        const centreAbove = corners.reduce((sum, value) => sum + value, 0) / 4 >= level;
+        const topLeftAbove = corners[0] >= level;
+        const [top, right, bottom, left] = crossed.map(edge => edge.at);
+        if (centreAbove === topLeftAbove) {
+          segments.push(`M ${top} L ${right}`, `M ${bottom} L ${left}`);
+        } else {
+          segments.push(`M ${top} L ${left}`, `M ${bottom} L ${right}`);
+        }
+      }
+    }
+  }
+  return segments.join(' ');
+}
@@ -0,0 +1,58 @@
+// User-defined bodies on Keplerian orbits around the Sun. They are stored as
+// fixed mean elements, so the same ephemeris code that places the planets
+// places them too.
+
+import { DAYS_PER_CENTURY, centuriesSinceJ2000, type MeanElements } from '@/lib/ephemeris';
+import { GAUSSIAN_GRAVITATIONAL_CONSTANT } from '@/lib/n-body';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+
+/** Classical elements as entered by the user. Angles are in degrees. */
+export interface CustomBodyParameters {
+  name: string;
+  semiMajorAxis: number; // AU
+  eccentricity: number;
+  inclination: number;
+  longitudeOfAscendingNode: number;
+  argumentOfPeriapsis: number;
+  meanAnomaly: number; // at the epoch
+  radius: number; // km
+  color: string;
+}
+
+export interface CustomBody extends CustomBodyParameters {
+  id: string;
+  epoch: number; // Julian date the mean anomaly refers to
+  elements: MeanElements;
+  displayRadius: number; // px in solar-system mode
+}
+
+/** Mean motion in degrees per Julian century from Kepler's third law (massless body). */
+export function meanMotion(semiMajorAxis: number): number {
+  return (GAUSSIAN_GRAVITATIONAL_CONSTANT / Math.pow(semiMajorAxis, 1.5)) * RAD_TO_DEG * DAYS_PER_CENTURY;
+}
+
+// Roughly matches the hand-picked planet sizes (Earth ≈ 5 px, Jupiter ≈ 10 px).
+function displayRadiusFor(radius: number): number {
+  return Math.min(12, Math.max(2, 0.25 * Math.cbrt(radius)));
+}
+
+export function createCustomBody(id: string, parameters: CustomBodyParameters, epoch: number): CustomBody {
+  const rate = meanMotion(parameters.semiMajorAxis);
+  const longitudeOfPerihelion = parameters.longitudeOfAscendingNode + parameters.argumentOfPeriapsis;
+  // Mean longitude at J2000 that gives the requested mean anomaly at the epoch.
+  const meanLongitude = longitudeOfPerihelion + parameters.meanAnomaly - rate * centuriesSinceJ2000(epoch);
+  return {
+    ...parameters,
+    id,
+    epoch,
+    displayRadius: displayRadiusFor(parameters.radius),
+    elements: {
+      semiMajorAxis: [parameters.semiMajorAxis, 0],
+      eccentricity: [parameters.eccentricity, 0],
+      inclination: [parameters.inclination, 0],
+      meanLongitude: [meanLongitude, rate],
+      longitudeOfPerihelion: [longitudeOfPerihelion, 0],
+      longitudeOfAscendingNode: [parameters.longitudeOfAscendingNode, 0],
+    },
+  };
+}
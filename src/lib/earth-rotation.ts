@@ -0,0 +1,37 @@
+// Earth's spin relative to the stars. A solar day (noon to noon) is longer
+// than a sidereal day because Earth also advances ~0.9856° along its orbit
+// each day, so it must turn that much further to face the Sun again.
+
+import { DEG_TO_RAD, normalizeAngle } from '@/lib/orbital-mechanics';
+import { J2000, centuriesSinceJ2000 } from '@/lib/ephemeris';
+
+export const SIDEREAL_ROTATION_PER_DAY = 360.98564736629; // degrees per mean solar day
+export const SIDEREAL_DAY = 360 / SIDEREAL_ROTATION_PER_DAY; // mean solar days
+export const OBLIQUITY_J2000 = 23.4392911; // degrees
+
+/** Greenwich mean sidereal time (IAU 1982) as an angle in radians. */
+export function greenwichMeanSiderealTime(jd: number): number {
+  const T = centuriesSinceJ2000(jd);
+  const degrees = 280.46061837 + SIDEREAL_ROTATION_PER_DAY * (jd - J2000) + 0.000387933 * T * T - (T * T * T) / 38710000;
+  return normalizeAngle(degrees * DEG_TO_RAD);
+}
+
+/** Ecliptic longitude of a point on the celestial equator with right ascension `ra`. */
+export function equatorToEclipticLongitude(ra: number, obliquity = OBLIQUITY_J2000 * DEG_TO_RAD): number {
+  return normalizeAngle(Math.atan2(Math.sin(ra) * Math.cos(obliquity), Math.cos(ra)));
+}
+
+/** Formats an hour angle in radians as hh:mm:ss. */
+export function formatSiderealTime(angle: number): string {
+  const totalSeconds = Math.floor((normalizeAngle(angle) / (2 * Math.PI)) * 86400);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return [hours, minutes, seconds].map(part => part.toString().padStart(2, '0')).join(':');
+}
+
+/** Mean obliquity of the ecliptic in degrees (IAU 1980; Meeus eq. 22.2), valid for a few millennia. */
+export function meanObliquity(jd: number): number {
+  const T = centuriesSinceJ2000(jd);
+  return OBLIQUITY_J2000 - 0.0130042 * T - 1.64e-7 * T * T + 5.04e-7 * T * T * T;
+}
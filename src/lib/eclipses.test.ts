@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { eclipseAtSyzygy, eclipsesBetween, findSyzygy } from '@/lib/eclipses';
+import { julianDate } from '@/lib/ephemeris';
+
+const jd = (year: number, month: number, day: number, hour = 0, minute = 0) =>
+  julianDate(new Date(Date.UTC(year, month - 1, day, hour, minute)));
+
+// NASA's catalogue: greatest eclipse, UTC.
+const PUBLISHED = [
+  { kind: 'lunar', type: 'penumbral', at: jd(2024, 3, 25, 7, 13) },
+  { kind: 'solar', type: 'total', at: jd(2024, 4, 8, 18, 17) },
+  { kind: 'lunar', type: 'partial', at: jd(2024, 9, 18, 2, 44) },
+  { kind: 'solar', type: 'annular', at: jd(2024, 10, 2, 18, 45) },
+  { kind: 'lunar', type: 'total', at: jd(2025, 3, 14, 6, 59) },
+  { kind: 'solar', type: 'partial', at: jd(2025, 3, 29, 10, 48) },
+  { kind: 'lunar', type: 'total', at: jd(2025, 9, 7, 18, 12) },
+  { kind: 'solar', type: 'partial', at: jd(2025, 9, 21, 19, 43) },
+  { kind: 'solar', type: 'annular', at: jd(2026, 2, 17, 12, 13) },
+  { kind: 'lunar', type: 'total', at: jd(2026, 3, 3, 11, 34) },
+  { kind: 'solar', type: 'total', at: jd(2026, 8, 12, 17, 47) },
+  { kind: 'lunar', type: 'partial', at: jd(2026, 8, 28, 4, 13) },
+];
+
+describe('eclipsesBetween', () => {
+  const eclipses = eclipsesBetween(jd(2024, 1, 1), jd(2027, 1, 1));
+
+  it('finds every eclipse of 2024–2026 and no others', () => {
+    expect(eclipses.map(({ kind, type }) => ({ kind, type }))).toEqual(PUBLISHED.map(({ kind, type }) => ({ kind, type })));
+  });
+
+  it('times them to within an hour of greatest eclipse', () => {
+    eclipses.forEach((eclipse, i) => expect(Math.abs(eclipse.julianDate - PUBLISHED[i].at) * 24).toBeLessThan(1));
+  });
+
+  it('gives the magnitudes of the partial solar eclipses', () => {
+    const partials = eclipses.filter(({ kind, type }) => kind === 'solar' && type === 'partial');
+    expect(partials[0].magnitude).toBeCloseTo(0.938, 2);
+    expect(partials[1].magnitude).toBeCloseTo(0.855, 2);
+  });
+});
+
+describe('eclipseAtSyzygy', () => {
+  it('recognizes the hybrid eclipse of 2023 April 20', () => {
+    expect(eclipseAtSyzygy(findSyzygy(jd(2023, 4, 20, 4), 0), 'solar')?.type).toBe('hybrid');
+  });
+
+  it('finds no eclipse at a new moon far from the nodes', () => {
+    expect(eclipseAtSyzygy(findSyzygy(jd(2024, 6, 6, 12), 0), 'solar')).toBeNull();
+  });
+});
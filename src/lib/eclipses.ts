@@ -0,0 +1,173 @@
+// Eclipse prediction from the Moon and Sun models. New and full moons are
+// located by root-finding on the Moon's elongation. Solar eclipses are then
+// classified with Meeus's gamma and u for that lunation, which are far more
+// precise than the Moon model's latitude; lunar eclipses are tested against
+// the shadow geometry at syzygy. Times are those of syzygy rather than
+// greatest eclipse, so they can differ by up to ~1 hour, and borderline
+// lunar events (e.g. tiny penumbrals) may be misclassified.
+
+import { DEG_TO_RAD, TWO_PI, wrapAngle } from '@/lib/orbital-mechanics';
+import { AU_KM, EARTH_MEAN_ELEMENTS, heliocentricPosition } from '@/lib/ephemeris';
+import { MOON, moonState, type MoonState } from '@/lib/moon';
+
+const EARTH_RADIUS_KM = 6378.14;
+const SUN_RADIUS_KM = 696000;
+// Earth's atmosphere enlarges its shadow by about 2% (Danjon).
+const SHADOW_ENLARGEMENT = 1.02;
+
+// Meeus's limits, in Earth radii, on gamma: the shadow axis meets Earth
+// inside the first, and the penumbra touches it inside the second plus u.
+const CENTRAL_LIMIT = 0.9972;
+const PENUMBRA_LIMIT = 1.5433;
+// Mean new moon of 2000 January 6 (JDE) and the mean lunation, for Meeus's k.
+const MEAN_NEW_MOON_EPOCH = 2451550.09766;
+const MEAN_LUNATION = 29.530588861; // days
+
+// Largest Sun–node separations at which an eclipse is still possible.
+export const SOLAR_ECLIPSE_LIMIT = 18.5 * DEG_TO_RAD;
+export const LUNAR_ECLIPSE_LIMIT = 12.2 * DEG_TO_RAD;
+
+export type EclipseKind = 'solar' | 'lunar';
+export type EclipseType = 'total' | 'annular' | 'hybrid' | 'partial' | 'penumbral';
+
+export interface Eclipse {
+  kind: EclipseKind;
+  type: EclipseType;
+  julianDate: number;
+  // Solar: fraction of the Sun's diameter covered (Moon/Sun size ratio if central).
+  // Lunar: umbral magnitude, or penumbral magnitude for penumbral eclipses.
+  magnitude: number;
+  moonLatitude: number; // radians at syzygy
+  node: 'ascending' | 'descending';
+}
+
+/**
+ * Refines a guess to the instant the Moon's elongation equals `target`
+ * (0 for new moon, π for full moon), using the mean synodic rate as the
+ * derivative for Newton steps.
+ */
+export function findSyzygy(jdGuess: number, target: number): number {
+  const rate = TWO_PI / MOON.synodicPeriod;
+  let jd = jdGuess;
+  for (let i = 0; i < 8; i++) {
+    const step = wrapAngle(moonState(jd).elongation - target) / rate;
+    jd -= step;
+    if (Math.abs(step) < 1e-5) break;
+  }
+  return jd;
+}
+
+/** Angle between the Sun and the nearer of the Moon's two nodes, 0 to π/2. */
+export function sunNodeSeparation(moon: Pick<MoonState, 'sunLongitude' | 'ascendingNode'>): number {
+  const angle = Math.abs(moon.sunLongitude - moon.ascendingNode) % Math.PI;
+  return Math.min(angle, Math.PI - angle);
+}
+
+function nodeOf(moon: MoonState): Eclipse['node'] {
+  return Math.cos(moon.longitude - moon.ascendingNode) > 0 ? 'ascending' : 'descending';
+}
+
+interface ShadowAxis {
+  gamma: number; // least distance of the shadow axis from Earth's centre, Earth radii
+  u: number; // radius of the umbral cone in the fundamental plane, Earth radii; negative is total
+}
+
+/**
+ * Gamma and u for the new moon nearest `jd`, from the lunation's mean
+ * elements and their main periodic terms (Meeus, "Astronomical Algorithms",
+ * ch. 54).
+ */
+function solarShadowAxis(jd: number): ShadowAxis {
+  const k = Math.round((jd - MEAN_NEW_MOON_EPOCH) / MEAN_LUNATION);
+  const T = k / 1236.85;
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const M = (2.5534 + 29.1053567 * k - 0.0000014 * T * T) * DEG_TO_RAD; // Sun's mean anomaly
+  const Mp = (201.5643 + 385.81693528 * k + 0.0107582 * T * T + 0.00001238 * T ** 3) * DEG_TO_RAD; // Moon's
+  const node = (124.7746 - 1.56375588 * k + 0.0020672 * T * T) * DEG_TO_RAD;
+  // The Moon's argument of latitude, with a small term in the node's longitude.
+  const F = (160.7108 + 390.67050284 * k - 0.0016118 * T * T - 0.00000227 * T ** 3 - 0.02665 * Math.sin(node)) * DEG_TO_RAD;
+
+  const P = 0.207 * E * Math.sin(M) + 0.0024 * E * Math.sin(2 * M) - 0.0392 * Math.sin(Mp) + 0.0116 * Math.sin(2 * Mp)
+    - 0.0073 * E * Math.sin(Mp + M) + 0.0067 * E * Math.sin(Mp - M) + 0.0118 * Math.sin(2 * F);
+  const Q = 5.2207 - 0.0048 * E * Math.cos(M) + 0.002 * E * Math.cos(2 * M) - 0.3299 * Math.cos(Mp)
+    - 0.006 * E * Math.cos(Mp + M) + 0.0041 * E * Math.cos(Mp - M);
+  const gamma = (P * Math.cos(F) + Q * Math.sin(F)) * (1 - 0.0048 * Math.abs(Math.cos(F)));
+  const u = 0.0059 + 0.0046 * E * Math.cos(M) - 0.0182 * Math.cos(Mp) + 0.0004 * Math.cos(2 * Mp) - 0.0005 * Math.cos(M + Mp);
+  return { gamma, u };
+}
+
+function classifySolarEclipse(jd: number, moon: MoonState): Eclipse | null {
+  const { gamma, u } = solarShadowAxis(jd);
+  const offset = Math.abs(gamma);
+  if (offset > PENUMBRA_LIMIT + u) return null;
+
+  let type: EclipseType;
+  let magnitude: number;
+  if (offset < CENTRAL_LIMIT + Math.abs(u)) {
+    // The umbra or antumbra reaches the surface. A thin antumbra can turn
+    // total where Earth's curvature brings the surface closest to the Moon.
+    const hybridLimit = 0.00464 * Math.sqrt(1 - gamma * gamma);
+    type = u < 0 ? 'total' : u < hybridLimit ? 'hybrid' : 'annular';
+    const sunDistance = heliocentricPosition(EARTH_MEAN_ELEMENTS, jd).radius * AU_KM;
+    const moonSize = MOON.radius / (moon.distance - EARTH_RADIUS_KM);
+    const sunSize = SUN_RADIUS_KM / sunDistance;
+    magnitude = moonSize / sunSize;
+  } else {
+    type = 'partial';
+    magnitude = (PENUMBRA_LIMIT + u - offset) / (0.5461 + 2 * u);
+  }
+
+  return { kind: 'solar', type, julianDate: jd, magnitude, moonLatitude: moon.latitude, node: nodeOf(moon) };
+}
+
+function classifyLunarEclipse(jd: number, moon: MoonState): Eclipse | null {
+  const sunDistance = heliocentricPosition(EARTH_MEAN_ELEMENTS, jd).radius * AU_KM;
+  const moonParallax = Math.asin(EARTH_RADIUS_KM / moon.distance);
+  const sunParallax = Math.asin(EARTH_RADIUS_KM / sunDistance);
+  const sunSemiDiameter = Math.asin(SUN_RADIUS_KM / sunDistance);
+  const moonSemiDiameter = Math.asin(MOON.radius / moon.distance);
+
+  const umbra = SHADOW_ENLARGEMENT * (moonParallax + sunParallax - sunSemiDiameter);
+  const penumbra = SHADOW_ENLARGEMENT * (moonParallax + sunParallax + sunSemiDiameter);
+  const offset = Math.abs(moon.latitude);
+
+  let type: EclipseType;
+  let magnitude: number;
+  if (offset - moonSemiDiameter >= penumbra) {
+    return null;
+  } else if (offset - moonSemiDiameter >= umbra) {
+    type = 'penumbral';
+    magnitude = (penumbra + moonSemiDiameter - offset) / (2 * moonSemiDiameter);
+  } else {
+    type = offset + moonSemiDiameter < umbra ? 'total' : 'partial';
+    magnitude = (umbra + moonSemiDiameter - offset) / (2 * moonSemiDiameter);
+  }
+
+  return { kind: 'lunar', type, julianDate: jd, magnitude, moonLatitude: moon.latitude, node: nodeOf(moon) };
+}
+
+/** The eclipse at the new or full moon nearest `jd`, if there is one. */
+export function eclipseAtSyzygy(jd: number, kind: EclipseKind): Eclipse | null {
+  const moon = moonState(jd);
+  return kind === 'solar' ? classifySolarEclipse(jd, moon) : classifyLunarEclipse(jd, moon);
+}
+
+/** All solar and lunar eclipses between two Julian dates, in time order. */
+export function eclipsesBetween(startJd: number, endJd: number): Eclipse[] {
+  const eclipses: Eclipse[] = [];
+  const first = moonState(startJd);
+  // Alternate between full and new moons, starting from whichever comes next.
+  let kind: EclipseKind = first.elongation < Math.PI ? 'lunar' : 'solar';
+  let guess = startJd + ((kind === 'lunar' ? Math.PI : TWO_PI) - first.elongation) / TWO_PI * MOON.synodicPeriod;
+  // The true syzygy can fall a day or so either side of the mean-rate guess.
+  while (guess < endJd + 2) {
+    const jd = findSyzygy(guess, kind === 'solar' ? 0 : Math.PI);
+    if (jd >= startJd && jd < endJd) {
+      const eclipse = eclipseAtSyzygy(jd, kind);
+      if (eclipse) eclipses.push(eclipse);
+    }
+    kind = kind === 'solar' ? 'lunar' : 'solar';
+    guess = jd + MOON.synodicPeriod / 2;
+  }
+  return eclipses;
+}
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { moonElp2000 } from '@/lib/elp2000';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+
+describe('moonElp2000', () => {
+  // Meeus, "Astronomical Algorithms", example 47.a: 1992 April 12.0 TD.
+  it('matches the worked example', () => {
+    const moon = moonElp2000(2448724.5);
+    expect(moon.longitude * RAD_TO_DEG).toBeCloseTo(133.162655, 5);
+    expect(Math.abs(moon.latitude * RAD_TO_DEG - -3.229126)).toBeLessThan(0.005);
+    expect(moon.distance).toBeCloseTo(368409.7, 0);
+  });
+});
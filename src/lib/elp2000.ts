@@ -0,0 +1,153 @@
+// The Moon's geocentric position from the ELP-2000/82 theory (Chapront),
+// truncated as in Meeus, "Astronomical Algorithms", ch. 47: longitude to
+// about 10″ and distance to a few kilometres. The latitude keeps only the
+// larger terms, to about 0.005°. Much finer than the Moon model used for the
+// scene, for where a small error in the Moon's direction matters, such as
+// Earth's monthly swing about the Earth–Moon barycentre.
+
+import { DEG_TO_RAD, normalizeAngle } from '@/lib/orbital-mechanics';
+import { centuriesSinceJ2000 } from '@/lib/ephemeris';
+
+// Multiples of D, M, M′ and F, then the longitude (10⁻⁶ degrees) and
+// distance (metres) coefficients of the sine and cosine terms.
+const LONGITUDE_AND_DISTANCE: [number, number, number, number, number, number][] = [
+  [0, 0, 1, 0, 6288774, -20905355],
+  [2, 0, -1, 0, 1274027, -3699111],
+  [2, 0, 0, 0, 658314, -2955968],
+  [0, 0, 2, 0, 213618, -569925],
+  [0, 1, 0, 0, -185116, 48888],
+  [0, 0, 0, 2, -114332, -3149],
+  [2, 0, -2, 0, 58793, 246158],
+  [2, -1, -1, 0, 57066, -152138],
+  [2, 0, 1, 0, 53322, -170733],
+  [2, -1, 0, 0, 45758, -204586],
+  [0, 1, -1, 0, -40923, -129620],
+  [1, 0, 0, 0, -34720, 108743],
+  [0, 1, 1, 0, -30383, 104755],
+  [2, 0, 0, -2, 15327, 10321],
+  [0, 0, 1, 2, -12528, 0],
+  [0, 0, 1, -2, 10980, 79661],
+  [4, 0, -1, 0, 10675, -34782],
+  [0, 0, 3, 0, 10034, -23210],
+  [4, 0, -2, 0, 8548, -21636],
+  [2, 1, -1, 0, -7888, 24208],
+  [2, 1, 0, 0, -6766, 30824],
+  [1, 0, -1, 0, -5163, -8379],
+  [1, 1, 0, 0, 4987, -16675],
+  [2, -1, 1, 0, 4036, -12831],
+  [2, 0, 2, 0, 3994, -10445],
+  [4, 0, 0, 0, 3861, -11650],
+  [2, 0, -3, 0, 3665, 14403],
+  [0, 1, -2, 0, -2689, -7003],
+  [2, 0, -1, 2, -2602, 0],
+  [2, -1, -2, 0, 2390, 10056],
+  [1, 0, 1, 0, -2348, 6322],
+  [2, -2, 0, 0, 2236, -9884],
+  [0, 1, 2, 0, -2120, 5751],
+  [0, 2, 0, 0, -2069, 0],
+  [2, -2, -1, 0, 2048, -4950],
+  [2, 0, 1, -2, -1773, 4130],
+  [2, 0, 0, 2, -1595, 0],
+  [4, -1, -1, 0, 1215, -3958],
+  [0, 0, 2, 2, -1110, 0],
+  [3, 0, -1, 0, -892, 3258],
+  [2, 1, 1, 0, -810, 2616],
+  [4, -1, -2, 0, 759, -1897],
+  [0, 2, -1, 0, -713, -2117],
+  [2, 2, -1, 0, -700, 2354],
+  [2, 1, -2, 0, 691, 0],
+  [2, -1, 0, -2, 596, 0],
+  [4, 0, 1, 0, 549, -1423],
+  [0, 0, 4, 0, 537, -1117],
+  [4, -1, 0, 0, 520, -1571],
+  [1, 0, -2, 0, -487, -1739],
+  [2, 1, 0, -2, -399, 0],
+  [0, 0, 2, -2, -381, -4421],
+  [1, 1, 1, 0, 351, 0],
+  [3, 0, -2, 0, -340, 0],
+  [4, 0, -3, 0, 330, 0],
+  [2, -1, 2, 0, 327, 0],
+  [0, 2, 1, 0, -323, 1165],
+  [1, 1, -1, 0, 299, 0],
+  [2, 0, 3, 0, 294, 0],
+  [2, 0, -1, -2, 0, 8752],
+];
+
+// Multiples of D, M, M′ and F, then the latitude coefficient (10⁻⁶ degrees).
+const LATITUDE: [number, number, number, number, number][] = [
+  [0, 0, 0, 1, 5128122],
+  [0, 0, 1, 1, 280602],
+  [0, 0, 1, -1, 277693],
+  [2, 0, 0, -1, 173237],
+  [2, 0, -1, 1, 55413],
+  [2, 0, -1, -1, 46271],
+  [2, 0, 0, 1, 32573],
+  [0, 0, 2, 1, 17198],
+  [2, 0, 1, -1, 9266],
+  [0, 0, 2, -1, 8822],
+  [2, -1, 0, -1, 8216],
+  [2, 0, -2, -1, 4324],
+  [2, 0, 1, 1, 4200],
+  [2, 1, 0, -1, -3359],
+  [2, -1, -1, 1, 2463],
+  [2, -1, 0, 1, 2211],
+  [2, -1, -1, -1, 2065],
+  [0, 1, -1, -1, -1870],
+  [4, 0, -1, -1, 1828],
+  [0, 1, 0, 1, -1794],
+  [0, 0, 0, 3, -1749],
+  [0, 1, -1, 1, -1565],
+  [1, 0, 0, 1, -1491],
+  [0, 1, 1, 1, -1475],
+  [0, 1, 1, -1, -1410],
+  [0, 1, 0, -1, -1344],
+  [1, 0, 0, -1, -1335],
+  [0, 0, 3, 1, 1107],
+  [4, 0, 0, -1, 1021],
+  [4, 0, -1, 1, 833],
+];
+
+const MEAN_DISTANCE = 385000.56; // km
+
+export interface LunarPosition {
+  longitude: number; // radians, geocentric, mean ecliptic and equinox of date
+  latitude: number; // radians
+  distance: number; // km, between the centres of Earth and the Moon
+}
+
+/** The Moon's geocentric position at Julian Ephemeris Day `jde` (TT). */
+export function moonElp2000(jde: number): LunarPosition {
+  const T = centuriesSinceJ2000(jde);
+  const meanLongitude = 218.3164477 + 481267.88123421 * T - 0.0015786 * T * T + T ** 3 / 538841 - T ** 4 / 65194000;
+  const D = (297.8501921 + 445267.1114034 * T - 0.0018819 * T * T + T ** 3 / 545868 - T ** 4 / 113065000) * DEG_TO_RAD;
+  const M = (357.5291092 + 35999.0502909 * T - 0.0001536 * T * T + T ** 3 / 24490000) * DEG_TO_RAD;
+  const Mp = (134.9633964 + 477198.8675055 * T + 0.0087414 * T * T + T ** 3 / 69699 - T ** 4 / 14712000) * DEG_TO_RAD;
+  const F = (93.272095 + 483202.0175233 * T - 0.0036539 * T * T - T ** 3 / 3526000 + T ** 4 / 863310000) * DEG_TO_RAD;
+  // Venus, Jupiter and Earth's flattening add a few small terms.
+  const A1 = (119.75 + 131.849 * T) * DEG_TO_RAD;
+  const A2 = (53.09 + 479264.29 * T) * DEG_TO_RAD;
+  const A3 = (313.45 + 481266.484 * T) * DEG_TO_RAD;
+  // Terms in the Sun's anomaly shrink with Earth's orbital eccentricity.
+  const E = 1 - 0.002516 * T - 0.0000074 * T * T;
+  const eccentricityFactor = (m: number) => E ** Math.abs(m);
+  const L = meanLongitude * DEG_TO_RAD;
+
+  let longitude = 3958 * Math.sin(A1) + 1962 * Math.sin(L - F) + 318 * Math.sin(A2);
+  let distance = 0;
+  for (const [d, m, mp, f, sine, cosine] of LONGITUDE_AND_DISTANCE) {
+    const argument = d * D + m * M + mp * Mp + f * F;
+    longitude += sine * eccentricityFactor(m) * Math.sin(argument);
+    distance += cosine * eccentricityFactor(m) * Math.cos(argument);
+  }
+  let latitude = -2235 * Math.sin(L) + 382 * Math.sin(A3) + 175 * Math.sin(A1 - F) + 175 * Math.sin(A1 + F)
+    + 127 * Math.sin(L - Mp) - 115 * Math.sin(L + Mp);
+  for (const [d, m, mp, f, sine] of LATITUDE) {
+    latitude += sine * eccentricityFactor(m) * Math.sin(d * D + m * M + mp * Mp + f * F);
+  }
+
+  return {
+    longitude: normalizeAngle((meanLongitude + longitude / 1e6) * DEG_TO_RAD),
+    latitude: (latitude / 1e6) * DEG_TO_RAD,
+    distance: MEAN_DISTANCE + distance / 1000,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EARTH_MEAN_ELEMENTS,
+  J2000,
+  PLANET_MEAN_ELEMENTS,
+  dateFromJulianDate,
+  deltaT,
+  heliocentricPosition,
+  julianDate,
+  siderealPeriod,
+  solarLongitude,
+} from '@/lib/ephemeris';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+
+describe('julianDate', () => {
+  it('puts J2000 at 2000-01-01 12:00', () => {
+    expect(julianDate(new Date(Date.UTC(2000, 0, 1, 12)))).toBe(J2000);
+  });
+
+  it('round-trips through dateFromJulianDate', () => {
+    const date = new Date(Date.UTC(2024, 3, 8, 18, 17, 16));
+    expect(dateFromJulianDate(julianDate(date)).getTime()).toBeCloseTo(date.getTime(), -1);
+  });
+});
+
+describe('deltaT', () => {
+  const at = (year: number) => deltaT(julianDate(new Date(Date.UTC(year, 0, 1))));
+
+  // Observed TT − UT: 56.86 s in 1990, 63.83 s in 2000 and 69.2 s in 2024.
+  it('follows the observed values', () => {
+    expect(at(1990)).toBeCloseTo(56.86, 0);
+    expect(at(2000)).toBeCloseTo(63.83, 0);
+    expect(Math.abs(at(2024) - 69.2)).toBeLessThan(5);
+  });
+});
+
+describe('heliocentricPosition', () => {
+  // Published Sun–Earth distances at the 2024 apsides.
+  it("gives Earth's distance at perihelion and aphelion", () => {
+    const perihelion = heliocentricPosition(EARTH_MEAN_ELEMENTS, julianDate(new Date(Date.UTC(2024, 0, 3, 0, 39))));
+    const aphelion = heliocentricPosition(EARTH_MEAN_ELEMENTS, julianDate(new Date(Date.UTC(2024, 6, 5, 5, 6))));
+    expect(Math.abs(perihelion.radius - 0.983307)).toBeLessThan(5e-5);
+    expect(Math.abs(aphelion.radius - 1.016725)).toBeLessThan(5e-5);
+  });
+});
+
+describe('siderealPeriod', () => {
+  it('matches the sidereal years of Earth and Mars', () => {
+    expect(siderealPeriod(EARTH_MEAN_ELEMENTS)).toBeCloseTo(365.256, 2);
+    expect(siderealPeriod(PLANET_MEAN_ELEMENTS.mars)).toBeCloseTo(686.98, 1);
+  });
+});
+
+describe('solarLongitude', () => {
+  // Meeus, "Astronomical Algorithms", example 25.a: 1992 October 13.0.
+  it("gives the Sun's apparent longitude to about 0.01°", () => {
+    expect(Math.abs(solarLongitude(2448908.5) * RAD_TO_DEG - 199.90988)).toBeLessThan(0.01);
+  });
+});
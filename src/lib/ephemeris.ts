@@ -0,0 +1,254 @@
+// Heliocentric ephemeris from the JPL "Approximate Positions of the Planets"
+// mean orbital elements (E. M. Standish, Table 2a: 3000 BC – 3000 AD).
+// Checked against published equinox instants and perihelion/aphelion
+// distances for 1900–2100: the solar longitude agrees to about 0.01°
+// (≈15 minutes of time) and the Sun–Earth distance to about 5×10⁻⁵ AU.
+// Errors grow outside that span; JPL rates the table for 3000 BC – 3000 AD.
+
+import { DEG_TO_RAD, eccentricToTrueAnomaly, normalizeAngle, solveKepler } from '@/lib/orbital-mechanics';
+
+export const J2000 = 2451545.0; // Julian date of 2000-01-01 12:00 TT
+export const DAYS_PER_CENTURY = 36525;
+export const AU_KM = 149597870.7;
+export const KM_S_PER_AU_DAY = AU_KM / 86400;
+const MS_PER_DAY = 86400000;
+const UNIX_EPOCH_JD = 2440587.5;
+
+// General precession in ecliptic longitude, degrees per Julian century.
+const PRECESSION_RATE = 1.396971;
+// Annual aberration shifts the apparent Sun back by ~20.5″.
+const ABERRATION = -20.4898 / 3600;
+
+/** Each element is [value at J2000, rate per Julian century]. Angles are in degrees. */
+export interface MeanElements {
+  semiMajorAxis: [number, number]; // AU
+  eccentricity: [number, number];
+  inclination: [number, number];
+  meanLongitude: [number, number];
+  longitudeOfPerihelion: [number, number];
+  longitudeOfAscendingNode: [number, number];
+  // Extra mean-anomaly terms b·T² + c·cos(f·T) + s·sin(f·T) for Jupiter–Neptune.
+  meanAnomalyCorrection?: { b: number; c: number; s: number; f: number };
+}
+
+export const PLANET_MEAN_ELEMENTS = {
+  mercury: {
+    semiMajorAxis: [0.38709843, 0.0],
+    eccentricity: [0.20563661, 0.00002123],
+    inclination: [7.00559432, -0.00590158],
+    meanLongitude: [252.25166724, 149472.67486623],
+    longitudeOfPerihelion: [77.45771895, 0.15940013],
+    longitudeOfAscendingNode: [48.33961819, -0.12214182],
+  },
+  venus: {
+    semiMajorAxis: [0.72332102, -0.00000026],
+    eccentricity: [0.00676399, -0.00005107],
+    inclination: [3.39777545, 0.00043494],
+    meanLongitude: [181.9797085, 58517.8156026],
+    longitudeOfPerihelion: [131.76755713, 0.05679648],
+    longitudeOfAscendingNode: [76.67261496, -0.27274174],
+  },
+  // Earth–Moon barycenter
+  earth: {
+    semiMajorAxis: [1.00000018, -0.00000003],
+    eccentricity: [0.01673163, -0.00003661],
+    inclination: [-0.00054346, -0.01337178],
+    meanLongitude: [100.46691572, 35999.37306329],
+    longitudeOfPerihelion: [102.93005885, 0.3179526],
+    longitudeOfAscendingNode: [-5.11260389, -0.24123856],
+  },
+  mars: {
+    semiMajorAxis: [1.52371243, 0.00000097],
+    eccentricity: [0.09336511, 0.00009149],
+    inclination: [1.85181869, -0.00724757],
+    meanLongitude: [-4.56813164, 19140.29934243],
+    longitudeOfPerihelion: [-23.91744784, 0.45223625],
+    longitudeOfAscendingNode: [49.71320984, -0.26852431],
+  },
+  jupiter: {
+    semiMajorAxis: [5.20248019, -0.00002864],
+    eccentricity: [0.0485359, 0.00018026],
+    inclination: [1.29861416, -0.00322699],
+    meanLongitude: [34.33479152, 3034.90371757],
+    longitudeOfPerihelion: [14.27495244, 0.18199196],
+    longitudeOfAscendingNode: [100.29282654, 0.13024619],
+    meanAnomalyCorrection: { b: -0.00012452, c: 0.0606406, s: -0.35635438, f: 38.35125 },
+  },
+  saturn: {
+    semiMajorAxis: [9.54149883, -0.00003065],
+    eccentricity: [0.05550825, -0.00032044],
+    inclination: [2.49424102, 0.00451969],
+    meanLongitude: [50.07571329, 1222.11494724],
+    longitudeOfPerihelion: [92.86136063, 0.54179478],
+    longitudeOfAscendingNode: [113.63998702, -0.25015002],
+    meanAnomalyCorrection: { b: 0.00025899, c: -0.13434469, s: 0.87320147, f: 38.35125 },
+  },
+  uranus: {
+    semiMajorAxis: [19.18797948, -0.00020455],
+    eccentricity: [0.0468574, -0.0000155],
+    inclination: [0.77298127, -0.00180155],
+    meanLongitude: [314.20276625, 428.49512595],
+    longitudeOfPerihelion: [172.43404441, 0.09266985],
+    longitudeOfAscendingNode: [73.96250215, 0.05739699],
+    meanAnomalyCorrection: { b: 0.00058331, c: -0.97731848, s: 0.17689245, f: 7.67025 },
+  },
+  neptune: {
+    semiMajorAxis: [30.06952752, 0.00006447],
+    eccentricity: [0.00895439, 0.00000818],
+    inclination: [1.7700552, 0.000224],
+    meanLongitude: [304.22289287, 218.46515314],
+    longitudeOfPerihelion: [46.68158724, 0.01009938],
+    longitudeOfAscendingNode: [131.78635853, -0.00606302],
+    meanAnomalyCorrection: { b: -0.00041348, c: 0.68346318, s: -0.10162547, f: 7.67025 },
+  },
+} satisfies Record<string, MeanElements>;
+
+export const EARTH_MEAN_ELEMENTS: MeanElements = PLANET_MEAN_ELEMENTS.earth;
+
+export interface HeliocentricPosition {
+  // Ecliptic coordinates, J2000 frame, AU
+  x: number;
+  y: number;
+  z: number;
+  radius: number;
+  longitude: number; // radians, J2000 ecliptic
+  latitude: number; // radians
+  semiMajorAxis: number; // AU
+  eccentricity: number;
+  longitudeOfPerihelion: number; // radians
+  meanAnomaly: number;
+  eccentricAnomaly: number;
+  trueAnomaly: number;
+}
+
+/** Julian date for a JavaScript Date (UTC; the ~1 min TT–UT offset is ignored). */
+export function julianDate(date: Date): number {
+  return date.getTime() / MS_PER_DAY + UNIX_EPOCH_JD;
+}
+
+export function dateFromJulianDate(jd: number): Date {
+  return new Date((jd - UNIX_EPOCH_JD) * MS_PER_DAY);
+}
+
+/**
+ * ΔT = TT − UT in seconds: Espenak & Meeus's polynomials for 1961–2150 and
+ * their long-term parabola elsewhere, which is within about 10 s for
+ * 1900–1961 but minutes out a few centuries away.
+ */
+export function deltaT(jd: number): number {
+  const year = 2000 + (jd - J2000) / 365.25;
+  const u = (year - 1820) / 100;
+  if (year < 1961 || year >= 2150) return -20 + 32 * u * u;
+  if (year < 1986) {
+    const t = year - 1975;
+    return 45.45 + 1.067 * t - t * t / 260 - t ** 3 / 718;
+  }
+  if (year < 2005) {
+    const t = year - 2000;
+    return 63.86 + 0.3345 * t - 0.060374 * t ** 2 + 0.0017275 * t ** 3 + 0.000651814 * t ** 4 + 0.00002373599 * t ** 5;
+  }
+  if (year < 2050) {
+    const t = year - 2000;
+    return 62.92 + 0.32217 * t + 0.005589 * t * t;
+  }
+  return -20 + 32 * u * u - 0.5628 * (2150 - year);
+}
+
+/** Julian centuries since J2000. */
+export function centuriesSinceJ2000(jd: number): number {
+  return (jd - J2000) / DAYS_PER_CENTURY;
+}
+
+/** Sidereal orbital period in days implied by the mean-longitude rate. */
+export function siderealPeriod(elements: MeanElements): number {
+  return (360 / elements.meanLongitude[1]) * DAYS_PER_CENTURY;
+}
+
+/** Converts a J2000 ecliptic longitude to one measured from the equinox of date. */
+export function longitudeOfDate(j2000Longitude: number, jd: number): number {
+  return normalizeAngle(j2000Longitude + PRECESSION_RATE * centuriesSinceJ2000(jd) * DEG_TO_RAD);
+}
+
+/** Heliocentric position of a body at Julian date `jd`. */
+export function heliocentricPosition(elements: MeanElements, jd: number): HeliocentricPosition {
+  const T = centuriesSinceJ2000(jd);
+  const at = ([value, rate]: [number, number]) => value + rate * T;
+
+  const a = at(elements.semiMajorAxis);
+  const e = at(elements.eccentricity);
+  const I = at(elements.inclination) * DEG_TO_RAD;
+  const L = at(elements.meanLongitude) * DEG_TO_RAD;
+  const varpi = at(elements.longitudeOfPerihelion) * DEG_TO_RAD;
+  const Omega = at(elements.longitudeOfAscendingNode) * DEG_TO_RAD;
+
+  const omega = varpi - Omega; // argument of perihelion
+  let meanAnomaly = L - varpi;
+  if (elements.meanAnomalyCorrection) {
+    const { b, c, s, f } = elements.meanAnomalyCorrection;
+    const fT = f * T * DEG_TO_RAD;
+    meanAnomaly += (b * T * T + c * Math.cos(fT) + s * Math.sin(fT)) * DEG_TO_RAD;
+  }
+  meanAnomaly = normalizeAngle(meanAnomaly);
+  const eccentricAnomaly = solveKepler(meanAnomaly, e);
+  const trueAnomaly = eccentricToTrueAnomaly(eccentricAnomaly, e);
+
+  // Position in the orbital plane, then rotated into the ecliptic frame.
+  const xOrb = a * (Math.cos(eccentricAnomaly) - e);
+  const yOrb = a * Math.sqrt(1 - e * e) * Math.sin(eccentricAnomaly);
+
+  const cosO = Math.cos(omega), sinO = Math.sin(omega);
+  const cosN = Math.cos(Omega), sinN = Math.sin(Omega);
+  const cosI = Math.cos(I), sinI = Math.sin(I);
+
+  const x = (cosO * cosN - sinO * sinN * cosI) * xOrb + (-sinO * cosN - cosO * sinN * cosI) * yOrb;
+  const y = (cosO * sinN + sinO * cosN * cosI) * xOrb + (-sinO * sinN + cosO * cosN * cosI) * yOrb;
+  const z = sinO * sinI * xOrb + cosO * sinI * yOrb;
+  const radius = Math.sqrt(x * x + y * y + z * z);
+
+  return {
+    x,
+    y,
+    z,
+    radius,
+    longitude: normalizeAngle(Math.atan2(y, x)),
+    latitude: Math.asin(z / radius),
+    semiMajorAxis: a,
+    eccentricity: e,
+    longitudeOfPerihelion: normalizeAngle(varpi),
+    meanAnomaly,
+    eccentricAnomaly,
+    trueAnomaly,
+  };
+}
+
+/**
+ * Nutation in longitude (radians): the wobble of the equinox about its
+ * precessing mean position, dominated by an 18.6-year term from the Moon's
+ * node. Meeus ch. 22, good to about 0.5″.
+ */
+export function nutationInLongitude(jd: number): number {
+  const T = centuriesSinceJ2000(jd);
+  const node = (125.04452 - 1934.136261 * T) * DEG_TO_RAD;
+  const sunLongitude = (280.4665 + 36000.7698 * T) * DEG_TO_RAD;
+  const moonLongitude = (218.3165 + 481267.8813 * T) * DEG_TO_RAD;
+  const arcseconds =
+    -17.2 * Math.sin(node) - 1.32 * Math.sin(2 * sunLongitude) - 0.23 * Math.sin(2 * moonLongitude) + 0.21 * Math.sin(2 * node);
+  return (arcseconds / 3600) * DEG_TO_RAD;
+}
+
+/** The Sun's apparent geocentric ecliptic longitude, measured from the true equinox of date. */
+export function solarLongitude(jd: number): number {
+  const earth = heliocentricPosition(EARTH_MEAN_ELEMENTS, jd);
+  return longitudeOfDate(earth.longitude + Math.PI + ABERRATION * DEG_TO_RAD + nutationInLongitude(jd), jd);
+}
+
+/**
+ * Longitude of the "mean Sun", which moves uniformly along the ecliptic and
+ * matches the apparent Sun at perihelion (Earth's mean longitude plus 180°,
+ * measured the same way as `solarLongitude`).
+ */
+export function solarMeanLongitude(jd: number): number {
+  const T = centuriesSinceJ2000(jd);
+  const [value, rate] = EARTH_MEAN_ELEMENTS.meanLongitude;
+  return longitudeOfDate((value + rate * T + 180 + ABERRATION) * DEG_TO_RAD, jd);
+}
@@ -0,0 +1,61 @@
+// Daily mean sunlight at the top of the atmosphere for every latitude across
+// a year. The tilt sets how far north and south the Sun's declination swings
+// and so which hemisphere gets long, high-Sun days; the eccentricity only
+// scales the whole globe by the inverse square of the distance, which is
+// why seasons follow the tilt and not perihelion.
+
+import { DEG_TO_RAD, RAD_TO_DEG, eccentricToTrueAnomaly, solveKepler } from '@/lib/orbital-mechanics';
+import { EARTH_MEAN_ELEMENTS, heliocentricPosition } from '@/lib/ephemeris';
+import { dailyInsolation } from '@/lib/milankovitch';
+
+export interface InsolationOrbit {
+  obliquity: number; // radians
+  eccentricity: number;
+  perihelionLongitude: number; // radians, the Sun's perihelion from the equinox of date
+}
+
+export interface InsolationGrid {
+  start: number; // Julian date of the first day's noon (UT)
+  days: number;
+  latitudes: number[]; // degrees, north to south
+  values: Float64Array; // W/m², values[row * days + day]
+  declinations: number[]; // degrees, the subsolar latitude for each day
+  max: number; // W/m²
+}
+
+/**
+ * The Sun's declination and distance (as a fraction of the semi-major axis)
+ * for a mean anomaly, on an orbit of the given shape and orientation.
+ */
+export function sunOnOrbit({ obliquity, eccentricity, perihelionLongitude }: InsolationOrbit, meanAnomaly: number) {
+  const trueAnomaly = eccentricToTrueAnomaly(solveKepler(meanAnomaly, eccentricity), eccentricity);
+  const longitude = perihelionLongitude + trueAnomaly;
+  return {
+    declination: Math.asin(Math.sin(obliquity) * Math.sin(longitude)),
+    distanceRatio: (1 - eccentricity * eccentricity) / (1 + eccentricity * Math.cos(trueAnomaly)),
+  };
+}
+
+/**
+ * Daily insolation on a `latitudeStep`-degree grid for `days` days from
+ * `start`. Earth keeps its real timing along the orbit (perihelion in early
+ * January), while the shape and tilt come from `orbit`.
+ */
+export function insolationGrid(orbit: InsolationOrbit, start: number, days: number, latitudeStep = 1): InsolationGrid {
+  const latitudes = Array.from({ length: Math.round(180 / latitudeStep) + 1 }, (_, row) => 90 - row * latitudeStep);
+  const values = new Float64Array(latitudes.length * days);
+  const declinations: number[] = [];
+  let max = 0;
+
+  for (let day = 0; day < days; day++) {
+    const { meanAnomaly } = heliocentricPosition(EARTH_MEAN_ELEMENTS, start + day);
+    const { declination, distanceRatio } = sunOnOrbit(orbit, meanAnomaly);
+    declinations.push(declination * RAD_TO_DEG);
+    latitudes.forEach((latitude, row) => {
+      const value = Math.max(0, dailyInsolation(latitude * DEG_TO_RAD, declination, distanceRatio));
+      values[row * days + day] = value;
+      max = Math.max(max, value);
+    });
+  }
+  return { start, days, latitudes, values, declinations, max };
+}
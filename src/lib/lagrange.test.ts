@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { SUN_EARTH_MASS_RATIO, effectivePotential, lagrangePoints } from '@/lib/lagrange';
+
+const mu = SUN_EARTH_MASS_RATIO;
+const point = (id: string) => lagrangePoints(mu).find(p => p.id === id)!;
+
+describe('lagrangePoints', () => {
+  // Published Sun–(Earth+Moon) values, in units of the Sun–Earth distance from the barycenter.
+  it('places L1, L2 and L3 where published', () => {
+    expect(point('L1').x).toBeCloseTo(0.98999, 5);
+    expect(point('L2').x).toBeCloseTo(1.01008, 5);
+    expect(point('L3').x).toBeCloseTo(-(1 + (5 * mu) / 12), 8);
+  });
+
+  it('puts L4 and L5 at the apexes of equilateral triangles', () => {
+    for (const id of ['L4', 'L5']) {
+      const { x, y } = point(id);
+      expect(Math.hypot(x + mu, y)).toBeCloseTo(1, 12);
+      expect(Math.hypot(x - 1 + mu, y)).toBeCloseTo(1, 12);
+    }
+  });
+
+  it('finds stationary points of the effective potential', () => {
+    const h = 1e-7;
+    for (const { x, y } of lagrangePoints(mu)) {
+      const dx = (effectivePotential(x + h, y, mu) - effectivePotential(x - h, y, mu)) / (2 * h);
+      const dy = (effectivePotential(x, y + h, mu) - effectivePotential(x, y - h, mu)) / (2 * h);
+      expect(Math.abs(dx)).toBeLessThan(1e-6);
+      expect(Math.abs(dy)).toBeLessThan(1e-6);
+    }
+  });
+});
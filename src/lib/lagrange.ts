@@ -0,0 +1,58 @@
+// Circular restricted three-body problem for the Sun–Earth system. Lengths
+// are in units of the Sun–Earth distance, in the frame co-rotating with
+// Earth, with the barycenter at the origin, the Sun at (−μ, 0) and Earth at
+// (1 − μ, 0).
+
+import { PLANETS } from '@/lib/solar-system';
+import type { Vector2 } from '@/lib/orbital-mechanics';
+
+export type LagrangePointId = 'L1' | 'L2' | 'L3' | 'L4' | 'L5';
+
+export interface LagrangePoint extends Vector2 {
+  id: LagrangePointId;
+}
+
+const earthMass = PLANETS.find(planet => planet.id === 'earth')!.mass;
+
+/** Earth(–Moon)'s share of the Sun–Earth mass, μ ≈ 3.0×10⁻⁶. */
+export const SUN_EARTH_MASS_RATIO = earthMass / (1 + earthMass);
+
+/** Effective (gravitational plus centrifugal) potential per unit mass, in units of G(M₁+M₂)/a. */
+export function effectivePotential(x: number, y: number, mu: number): number {
+  const r1 = Math.hypot(x + mu, y);
+  const r2 = Math.hypot(x - 1 + mu, y);
+  return -(1 - mu) / r1 - mu / r2 - (x * x + y * y) / 2;
+}
+
+// Net force along the x axis, which vanishes at the collinear points.
+function axialForce(x: number, mu: number): number {
+  const d1 = x + mu;
+  const d2 = x - 1 + mu;
+  return x - ((1 - mu) * d1) / Math.abs(d1 * d1 * d1) - (mu * d2) / Math.abs(d2 * d2 * d2);
+}
+
+// The force is monotonic between the bodies and beyond them, so bisection
+// on a bracketing interval always converges.
+function findRoot(mu: number, low: number, high: number): number {
+  let a = low;
+  let b = high;
+  const signA = Math.sign(axialForce(a, mu));
+  for (let i = 0; i < 100; i++) {
+    const mid = (a + b) / 2;
+    if (Math.sign(axialForce(mid, mu)) === signA) a = mid;
+    else b = mid;
+  }
+  return (a + b) / 2;
+}
+
+export function lagrangePoints(mu: number): LagrangePoint[] {
+  const hill = Math.cbrt(mu / 3);
+  const earthX = 1 - mu;
+  return [
+    { id: 'L1', x: findRoot(mu, earthX - 3 * hill, earthX - hill / 10), y: 0 },
+    { id: 'L2', x: findRoot(mu, earthX + hill / 10, earthX + 3 * hill), y: 0 },
+    { id: 'L3', x: findRoot(mu, -mu - 1.5, -mu - 0.5), y: 0 },
+    { id: 'L4', x: 0.5 - mu, y: Math.sqrt(3) / 2 },
+    { id: 'L5', x: 0.5 - mu, y: -Math.sqrt(3) / 2 },
+  ];
+}
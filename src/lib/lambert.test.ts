@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { PLANET_MEAN_ELEMENTS, heliocentricPosition, julianDate } from '@/lib/ephemeris';
+import { interplanetaryTransfer, solveLambert, transferTrajectory } from '@/lib/lambert';
+
+const { earth, mars } = PLANET_MEAN_ELEMENTS;
+const jd = (year: number, month: number, day: number) => julianDate(new Date(Date.UTC(year, month - 1, day)));
+
+describe('solveLambert', () => {
+  // Curtis, "Orbital Mechanics for Engineering Students", example 5.2 (km, s).
+  it('matches the worked example', () => {
+    const solution = solveLambert({ x: 5000, y: 10000, z: 2100 }, { x: -14600, y: 2500, z: 7000 }, 3600, 398600)!;
+    expect(solution.departureVelocity.x).toBeCloseTo(-5.9925, 4);
+    expect(solution.departureVelocity.y).toBeCloseTo(1.9254, 4);
+    expect(solution.departureVelocity.z).toBeCloseTo(3.2456, 4);
+    expect(solution.arrivalVelocity.x).toBeCloseTo(-3.3125, 4);
+    expect(solution.arrivalVelocity.y).toBeCloseTo(-4.1966, 4);
+    expect(solution.arrivalVelocity.z).toBeCloseTo(-0.38529, 4);
+  });
+
+  it('has no solution for points exactly opposite each other', () => {
+    expect(solveLambert({ x: 1, y: 0, z: 0 }, { x: -1.5, y: 0, z: 0 }, 200)).toBeNull();
+  });
+});
+
+describe('interplanetaryTransfer', () => {
+  // Published launch energies of Mars missions.
+  it('gives the launch energy of Mars 2020 and MRO', () => {
+    expect(interplanetaryTransfer(earth, mars, jd(2020, 7, 30), jd(2021, 2, 18))!.c3).toBeCloseTo(14.5, 0);
+    expect(interplanetaryTransfer(earth, mars, jd(2005, 8, 12), jd(2006, 3, 10))!.c3).toBeCloseTo(16.4, 0);
+  });
+
+  it('rejects an arrival before departure', () => {
+    expect(interplanetaryTransfer(earth, mars, jd(2021, 2, 18), jd(2020, 7, 30))).toBeNull();
+  });
+});
+
+describe('transferTrajectory', () => {
+  it('ends at the destination', () => {
+    const arrival = jd(2021, 2, 18);
+    const points = transferTrajectory(interplanetaryTransfer(earth, mars, jd(2020, 7, 30), arrival)!, 50);
+    const end = points[points.length - 1];
+    const target = heliocentricPosition(mars, arrival);
+    expect(points).toHaveLength(51);
+    expect(Math.hypot(end.x - target.x, end.y - target.y, end.z - target.z)).toBeLessThan(1e-5);
+  });
+});
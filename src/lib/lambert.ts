@@ -0,0 +1,142 @@
+// Lambert's problem: the heliocentric orbit that joins two positions in a
+// given time of flight, solved with universal variables (Bate, Mueller &
+// White; Curtis, Algorithm 5.2) for a single prograde arc of less than one
+// revolution. Units: AU and days; C3 and v∞ are reported in km²/s² and km/s.
+
+import type { Vector3 } from '@/lib/orbital-mechanics';
+import { KM_S_PER_AU_DAY, heliocentricPosition, type MeanElements } from '@/lib/ephemeris';
+import { G, advanceSystem, dormandPrince } from '@/lib/n-body';
+
+export interface LambertSolution {
+  departureVelocity: Vector3; // AU/day
+  arrivalVelocity: Vector3; // AU/day
+}
+
+// Stumpff functions, with series near z = 0 where the closed forms cancel.
+function stumpffC(z: number): number {
+  if (z > 1e-6) return (1 - Math.cos(Math.sqrt(z))) / z;
+  if (z < -1e-6) return (Math.cosh(Math.sqrt(-z)) - 1) / -z;
+  return 1 / 2 - z / 24;
+}
+
+function stumpffS(z: number): number {
+  if (z > 1e-6) return (Math.sqrt(z) - Math.sin(Math.sqrt(z))) / Math.pow(z, 1.5);
+  if (z < -1e-6) return (Math.sinh(Math.sqrt(-z)) - Math.sqrt(-z)) / Math.pow(-z, 1.5);
+  return 1 / 6 - z / 120;
+}
+
+const length = (v: Vector3) => Math.hypot(v.x, v.y, v.z);
+
+/**
+ * Velocities at both ends of the prograde transfer from `r1` to `r2` taking
+ * `timeOfFlight` days, or null where there is none (e.g. exactly 180°
+ * apart, where the transfer plane is undefined).
+ */
+export function solveLambert(r1: Vector3, r2: Vector3, timeOfFlight: number, mu = G): LambertSolution | null {
+  const d1 = length(r1);
+  const d2 = length(r2);
+  const cosAngle = (r1.x * r2.x + r1.y * r2.y + r1.z * r2.z) / (d1 * d2);
+  // Prograde means counterclockwise seen from the ecliptic north pole.
+  const crossZ = r1.x * r2.y - r1.y * r2.x;
+  const angle = crossZ >= 0 ? Math.acos(cosAngle) : 2 * Math.PI - Math.acos(cosAngle);
+  const A = Math.sin(angle) * Math.sqrt((d1 * d2) / (1 - cosAngle));
+  if (!Number.isFinite(A) || Math.abs(A) < 1e-12) return null;
+
+  const y = (z: number) => d1 + d2 + (A * (z * stumpffS(z) - 1)) / Math.sqrt(stumpffC(z));
+  const flightTime = (z: number) => {
+    const yz = y(z);
+    return (Math.pow(yz / stumpffC(z), 1.5) * stumpffS(z) + A * Math.sqrt(yz)) / Math.sqrt(mu);
+  };
+
+  // Time of flight grows with z, from hyperbolic (z < 0) up to the limit of
+  // one full revolution at z = 4π², so bisection always brackets the root.
+  // Where y < 0 there is no real orbit and the time counts as too short.
+  let low = -4 * Math.PI * Math.PI;
+  let high = 4 * Math.PI * Math.PI - 1e-6;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (y(mid) < 0 || flightTime(mid) < timeOfFlight) low = mid;
+    else high = mid;
+  }
+  const z = (low + high) / 2;
+  const yz = y(z);
+  if (yz < 0 || Math.abs(flightTime(z) - timeOfFlight) > 1e-6 * timeOfFlight) return null;
+
+  // Lagrange coefficients.
+  const f = 1 - yz / d1;
+  const g = A * Math.sqrt(yz / mu);
+  const gDot = 1 - yz / d2;
+  return {
+    departureVelocity: { x: (r2.x - f * r1.x) / g, y: (r2.y - f * r1.y) / g, z: (r2.z - f * r1.z) / g },
+    arrivalVelocity: { x: (gDot * r2.x - r1.x) / g, y: (gDot * r2.y - r1.y) / g, z: (gDot * r2.z - r1.z) / g },
+  };
+}
+
+/** A planet's heliocentric position and velocity (central difference of the ephemeris). */
+function planetState(elements: MeanElements, jd: number): { position: Vector3; velocity: Vector3 } {
+  const h = 0.5; // days
+  const { x, y, z } = heliocentricPosition(elements, jd);
+  const before = heliocentricPosition(elements, jd - h);
+  const after = heliocentricPosition(elements, jd + h);
+  return {
+    position: { x, y, z },
+    velocity: { x: (after.x - before.x) / (2 * h), y: (after.y - before.y) / (2 * h), z: (after.z - before.z) / (2 * h) },
+  };
+}
+
+export interface InterplanetaryTransfer {
+  departureJulianDate: number;
+  arrivalJulianDate: number;
+  departurePosition: Vector3; // AU, heliocentric
+  departureVelocity: Vector3; // AU/day, heliocentric
+  c3: number; // km²/s², square of the departure v∞ (launch energy)
+  arrivalVInfinity: number; // km/s, speed relative to the destination on arrival
+}
+
+/** The Lambert transfer between two planets for given departure and arrival dates. */
+export function interplanetaryTransfer(
+  origin: MeanElements,
+  destination: MeanElements,
+  departureJulianDate: number,
+  arrivalJulianDate: number
+): InterplanetaryTransfer | null {
+  if (arrivalJulianDate <= departureJulianDate) return null;
+  const start = planetState(origin, departureJulianDate);
+  const end = planetState(destination, arrivalJulianDate);
+  const solution = solveLambert(start.position, end.position, arrivalJulianDate - departureJulianDate);
+  if (!solution) return null;
+
+  const relativeSpeed = (a: Vector3, b: Vector3) => length({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z }) * KM_S_PER_AU_DAY;
+  const departureVInfinity = relativeSpeed(solution.departureVelocity, start.velocity);
+  return {
+    departureJulianDate,
+    arrivalJulianDate,
+    departurePosition: start.position,
+    departureVelocity: solution.departureVelocity,
+    c3: departureVInfinity * departureVInfinity,
+    arrivalVInfinity: relativeSpeed(solution.arrivalVelocity, end.velocity),
+  };
+}
+
+/**
+ * Positions along the transfer at `count` + 1 equally spaced times from
+ * departure to arrival, found by integrating the spacecraft around the Sun.
+ */
+export function transferTrajectory(transfer: InterplanetaryTransfer, count: number): Vector3[] {
+  const { departurePosition: r, departureVelocity: v } = transfer;
+  let system = {
+    julianDate: transfer.departureJulianDate,
+    particles: [
+      { id: 'sun', mass: 1, x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0 },
+      { id: 'craft', mass: 0, x: r.x, y: r.y, z: r.z, vx: v.x, vy: v.y, vz: v.z },
+    ],
+  };
+  const interval = (transfer.arrivalJulianDate - transfer.departureJulianDate) / count;
+  const points = [r];
+  for (let i = 0; i < count; i++) {
+    system = advanceSystem(system, interval, dormandPrince, { stepSize: interval, tolerance: 1e-10 });
+    const { x, y, z } = system.particles[1];
+    points.push({ x, y, z });
+  }
+  return points;
+}
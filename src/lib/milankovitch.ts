@@ -0,0 +1,93 @@
+// Simplified Milankovitch cycles for the deep-time mode. Each cycle is a
+// single sinusoid (two for eccentricity) phased to match today's values and
+// trends, so the periods and ranges are right but individual peaks are only
+// indicative. Use Berger (1978) or Laskar (2004) solutions for research work.
+
+import { DEG_TO_RAD, TWO_PI } from '@/lib/orbital-mechanics';
+
+export const SOLAR_CONSTANT = 1361; // W/m² at 1 AU
+
+export const AXIAL_PRECESSION_PERIOD = 25772; // years, relative to the stars
+export const APSIDAL_PRECESSION_PERIOD = 112000; // years, perihelion advance relative to the stars
+export const OBLIQUITY_PERIOD = 41000; // years
+export const ECCENTRICITY_PERIODS = [100000, 405000]; // years
+
+const OBLIQUITY_MEAN = 23.3; // degrees; ranges over 22.1°–24.5°
+const OBLIQUITY_AMPLITUDE = 1.2;
+const OBLIQUITY_PHASE = 83.3; // degrees, gives 23.44° and falling at J2000
+
+const ECCENTRICITY_MEAN = 0.0275;
+const ECCENTRICITY_TERMS = [
+  { amplitude: 0.012, period: ECCENTRICITY_PERIODS[0], phase: 124.5 },
+  { amplitude: 0.008, period: ECCENTRICITY_PERIODS[1], phase: 120 },
+];
+
+// The Sun's longitude of perihelion measured from the moving vernal equinox.
+const PERIHELION_LONGITUDE_J2000 = 282.94; // degrees
+const SUMMER_SOLSTICE_LONGITUDE = 90; // degrees
+const REFERENCE_LATITUDE = 65; // °N, where ice-sheet growth is decided
+
+export interface OrbitalForcing {
+  years: number; // relative to J2000, negative in the past
+  eccentricity: number;
+  obliquity: number; // degrees
+  precessionAngle: number; // degrees the equinoxes have regressed since J2000
+  perihelionLongitude: number; // degrees, Sun's perihelion from the moving equinox
+  precessionIndex: number; // e·sin(ϖ), the climatic precession parameter
+  summerInsolation: number; // W/m², daily mean at 65°N on the June solstice
+}
+
+function periodicTerm(years: number, period: number, phaseDegrees: number): number {
+  return Math.cos((TWO_PI * years) / period + phaseDegrees * DEG_TO_RAD);
+}
+
+/**
+ * Daily mean top-of-atmosphere insolation at a latitude, given the Sun's
+ * declination and its distance as a fraction of the semi-major axis.
+ */
+export function dailyInsolation(latitude: number, declination: number, distanceRatio: number): number {
+  const tanProduct = -Math.tan(latitude) * Math.tan(declination);
+  // Polar day and polar night clamp the sunrise hour angle.
+  const hourAngle = tanProduct >= 1 ? 0 : tanProduct <= -1 ? Math.PI : Math.acos(tanProduct);
+  return (
+    (SOLAR_CONSTANT / Math.PI) / (distanceRatio * distanceRatio) *
+    (hourAngle * Math.sin(latitude) * Math.sin(declination) + Math.cos(latitude) * Math.cos(declination) * Math.sin(hourAngle))
+  );
+}
+
+export function orbitalForcing(years: number): OrbitalForcing {
+  const obliquity = OBLIQUITY_MEAN + OBLIQUITY_AMPLITUDE * periodicTerm(years, OBLIQUITY_PERIOD, OBLIQUITY_PHASE);
+  const eccentricity = ECCENTRICITY_TERMS.reduce(
+    (sum, term) => sum + term.amplitude * periodicTerm(years, term.period, term.phase),
+    ECCENTRICITY_MEAN
+  );
+
+  // The equinox drifts west against the stars while perihelion drifts east,
+  // so their separation cycles in ~21 ka (climatic precession).
+  const precessionAngle = (360 * years) / AXIAL_PRECESSION_PERIOD;
+  const apsidalAngle = (360 * years) / APSIDAL_PRECESSION_PERIOD;
+  const perihelionLongitude = (((PERIHELION_LONGITUDE_J2000 + precessionAngle + apsidalAngle) % 360) + 360) % 360;
+  const varpi = perihelionLongitude * DEG_TO_RAD;
+
+  const trueAnomalyAtSolstice = (SUMMER_SOLSTICE_LONGITUDE - perihelionLongitude) * DEG_TO_RAD;
+  const distanceRatio = (1 - eccentricity * eccentricity) / (1 + eccentricity * Math.cos(trueAnomalyAtSolstice));
+
+  return {
+    years,
+    eccentricity,
+    obliquity,
+    precessionAngle,
+    perihelionLongitude,
+    precessionIndex: eccentricity * Math.sin(varpi),
+    summerInsolation: dailyInsolation(REFERENCE_LATITUDE * DEG_TO_RAD, obliquity * DEG_TO_RAD, distanceRatio),
+  };
+}
+
+/** Samples the forcing every `step` years across [start, end]. */
+export function orbitalForcingSeries(start: number, end: number, step: number): OrbitalForcing[] {
+  const samples: OrbitalForcing[] = [];
+  for (let years = start; years <= end; years += step) {
+    samples.push(orbitalForcing(years));
+  }
+  return samples;
+}
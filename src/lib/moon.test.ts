@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { julianDate } from '@/lib/ephemeris';
+import { moonState } from '@/lib/moon';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+
+const at = (year: number, month: number, day: number, hour: number, minute: number) =>
+  moonState(julianDate(new Date(Date.UTC(year, month - 1, day, hour, minute))));
+
+describe('moonState', () => {
+  // Meeus, "Astronomical Algorithms", example 47.a: 1992 April 12.0.
+  it("places the Moon to within the model's accuracy", () => {
+    const moon = moonState(2448724.5);
+    expect(Math.abs(moon.longitude * RAD_TO_DEG - 133.162655)).toBeLessThan(0.3);
+    expect(Math.abs(moon.latitude * RAD_TO_DEG - -3.229126)).toBeLessThan(0.1);
+    expect(Math.abs(moon.distance - 368409.7)).toBeLessThan(1000);
+  });
+
+  // Published phase instants for 2024, UTC.
+  it('names the phases at their published times', () => {
+    const newMoon = at(2024, 4, 8, 18, 21);
+    expect(newMoon.phase).toBe('New Moon');
+    expect(newMoon.illumination).toBeLessThan(0.001);
+
+    const firstQuarter = at(2024, 3, 17, 4, 11);
+    expect(firstQuarter.phase).toBe('First Quarter');
+    expect(firstQuarter.illumination).toBeCloseTo(0.5, 2);
+    expect(firstQuarter.isWaxing).toBe(true);
+
+    const fullMoon = at(2024, 9, 18, 2, 34);
+    expect(fullMoon.phase).toBe('Full Moon');
+    expect(fullMoon.illumination).toBeGreaterThan(0.999);
+    expect(fullMoon.age).toBeCloseTo(29.530589 / 2, 0);
+  });
+});
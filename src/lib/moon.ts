@@ -0,0 +1,104 @@
+// Geocentric Moon model: a Keplerian orbit whose node regresses and whose
+// perigee advances, plus the three largest solar perturbations (evection,
+// variation and the annual equation). Mean elements follow Meeus,
+// "Astronomical Algorithms", ch. 47. Longitudes are good to ~0.3°.
+
+import { DEG_TO_RAD, normalizeAngle, solveKepler, eccentricToTrueAnomaly } from '@/lib/orbital-mechanics';
+import { centuriesSinceJ2000, solarLongitude } from '@/lib/ephemeris';
+
+export const MOON = {
+  siderealPeriod: 27.321661, // days, relative to the stars
+  synodicPeriod: 29.530589, // days, new moon to new moon
+  nodalPeriod: 6798.38, // days, regression of the node line (18.6 years)
+  inclination: 5.145, // degrees to the ecliptic
+  eccentricity: 0.0549,
+  semiMajorAxis: 384400, // km
+  radius: 1737.4, // km
+};
+
+export type MoonPhaseName =
+  | 'New Moon'
+  | 'Waxing Crescent'
+  | 'First Quarter'
+  | 'Waxing Gibbous'
+  | 'Full Moon'
+  | 'Waning Gibbous'
+  | 'Last Quarter'
+  | 'Waning Crescent';
+
+const PHASE_NAMES: MoonPhaseName[] = [
+  'New Moon',
+  'Waxing Crescent',
+  'First Quarter',
+  'Waxing Gibbous',
+  'Full Moon',
+  'Waning Gibbous',
+  'Last Quarter',
+  'Waning Crescent',
+];
+
+export interface MoonState {
+  longitude: number; // radians, geocentric ecliptic, equinox of date
+  latitude: number; // radians
+  distance: number; // km
+  ascendingNode: number; // radians, longitude of the ascending node
+  sunLongitude: number; // radians
+  elongation: number; // radians, 0 at new moon, increasing eastward to 2π
+  illumination: number; // fraction of the disc that is lit, 0–1
+  age: number; // days since new moon
+  phase: MoonPhaseName;
+  isWaxing: boolean;
+}
+
+/** Position and phase of the Moon at Julian date `jd`. */
+export function moonState(jd: number): MoonState {
+  const T = centuriesSinceJ2000(jd);
+  const deg = (value: number) => normalizeAngle(value * DEG_TO_RAD);
+
+  const meanLongitude = deg(218.3164477 + 481267.88123421 * T);
+  const meanElongation = deg(297.8501921 + 445267.1114034 * T);
+  const sunMeanAnomaly = deg(357.5291092 + 35999.0502909 * T);
+  const meanAnomaly = deg(134.9633964 + 477198.8675055 * T);
+  const ascendingNode = deg(125.0445479 - 1934.1362891 * T);
+
+  const { eccentricity: e, semiMajorAxis: a } = MOON;
+  const eccentricAnomaly = solveKepler(meanAnomaly, e);
+  const trueAnomaly = eccentricToTrueAnomaly(eccentricAnomaly, e);
+  const longitudeOfPerigee = meanLongitude - meanAnomaly;
+
+  const D2 = 2 * meanElongation;
+  const perturbation =
+    1.274 * Math.sin(D2 - meanAnomaly) + // evection
+    0.658 * Math.sin(D2) - // variation
+    0.186 * Math.sin(sunMeanAnomaly); // annual equation
+  const orbitLongitude = longitudeOfPerigee + trueAnomaly + perturbation * DEG_TO_RAD;
+
+  // Project from the inclined orbital plane onto the ecliptic.
+  const argumentOfLatitude = orbitLongitude - ascendingNode;
+  const inclination = MOON.inclination * DEG_TO_RAD;
+  const longitude = normalizeAngle(
+    ascendingNode + Math.atan2(Math.cos(inclination) * Math.sin(argumentOfLatitude), Math.cos(argumentOfLatitude))
+  );
+  const latitude = Math.asin(Math.sin(inclination) * Math.sin(argumentOfLatitude));
+  const distance = a * (1 - e * Math.cos(eccentricAnomaly)) - 3699 * Math.cos(D2 - meanAnomaly) - 2956 * Math.cos(D2);
+
+  const sunLongitude = solarLongitude(jd);
+  const elongation = normalizeAngle(longitude - sunLongitude);
+  // Angular separation from the Sun, including the Moon's latitude.
+  const separation = Math.acos(Math.cos(latitude) * Math.cos(elongation));
+  const illumination = (1 - Math.cos(separation)) / 2;
+  const phaseIndex = Math.round(elongation / (Math.PI / 4)) % PHASE_NAMES.length;
+
+  return {
+    longitude,
+    latitude,
+    distance,
+    ascendingNode,
+    sunLongitude,
+    elongation,
+    illumination,
+    age: (elongation / (2 * Math.PI)) * MOON.synodicPeriod,
+    phase: PHASE_NAMES[phaseIndex],
+    isWaxing: elongation < Math.PI,
+  };
+}
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { EARTH_MEAN_ELEMENTS, J2000, heliocentricPosition } from '@/lib/ephemeris';
+import {
+  INTEGRATORS,
+  advanceSystem,
+  conservationErrors,
+  conservedQuantities,
+  euler,
+  getIntegrator,
+  relativeState,
+  solarSystemAt,
+} from '@/lib/n-body';
+
+const SETTINGS = { stepSize: 1, tolerance: 1e-10 };
+const YEAR = 365.25;
+
+describe('advanceSystem', () => {
+  const start = solarSystemAt(J2000);
+  const reference = conservedQuantities(start);
+
+  it.each(INTEGRATORS.filter(integrator => integrator !== euler))('$name keeps Earth on its ephemeris orbit for a year', integrator => {
+    const end = advanceSystem(start, YEAR, integrator, SETTINGS);
+    const earth = relativeState(end, 'earth')!;
+    const expected = heliocentricPosition(EARTH_MEAN_ELEMENTS, J2000 + YEAR);
+    expect(Math.hypot(earth.position.x - expected.x, earth.position.y - expected.y, earth.position.z - expected.z)).toBeLessThan(1e-3);
+    expect(earth.orbit.semiMajorAxis).toBeCloseTo(1, 4);
+    expect(earth.orbit.eccentricity).toBeCloseTo(0.0167, 3);
+    expect(conservationErrors(reference, conservedQuantities(end)).energy).toBeLessThan(1e-7);
+  });
+
+  it('conserves angular momentum to rounding error with the symplectic methods', () => {
+    for (const integrator of INTEGRATORS.filter(({ symplectic }) => symplectic)) {
+      const end = advanceSystem(start, YEAR, integrator, SETTINGS);
+      expect(conservationErrors(reference, conservedQuantities(end)).angularMomentum).toBeLessThan(1e-12);
+    }
+  });
+
+  it("lets Euler's method drift", () => {
+    const end = advanceSystem(start, YEAR, euler, SETTINGS);
+    expect(conservationErrors(reference, conservedQuantities(end)).energy).toBeGreaterThan(1e-3);
+  });
+
+  it('runs backwards to where it started', () => {
+    const integrator = getIntegrator('yoshida4');
+    const there = advanceSystem(start, YEAR, integrator, SETTINGS);
+    const back = advanceSystem(there, -YEAR, integrator, SETTINGS);
+    const earth = (system: typeof start) => relativeState(system, 'earth')!.position;
+    expect(earth(back).x).toBeCloseTo(earth(start).x, 8);
+    expect(earth(back).y).toBeCloseTo(earth(start).y, 8);
+    expect(back.julianDate).toBeCloseTo(J2000, 8);
+  });
+});
+
+describe('solarSystemAt', () => {
+  it('puts the barycenter at rest at the origin', () => {
+    const { particles } = solarSystemAt(J2000);
+    const momentum = particles.reduce((sum, p) => sum + p.mass * p.vx, 0);
+    const moment = particles.reduce((sum, p) => sum + p.mass * p.x, 0);
+    expect(momentum).toBeCloseTo(0, 14);
+    expect(moment).toBeCloseTo(0, 14);
+  });
+});
@@ -0,0 +1,396 @@
+// Newtonian N-body gravity for the "free physics" mode. Bodies carry masses,
+// positions and velocities and are advanced by a pluggable integrator instead
+// of following prescribed ellipses. Units: AU, days, solar masses; positions
+// are heliocentric ecliptic (J2000) at the start, shifted to the barycenter.
+
+import { normalizeAngle, osculatingOrbit, type OsculatingOrbit, type Vector3 } from '@/lib/orbital-mechanics';
+import { heliocentricPosition, type HeliocentricPosition, type MeanElements } from '@/lib/ephemeris';
+import { PLANETS } from '@/lib/solar-system';
+
+// Gaussian gravitational constant k, so G = k² in AU³ / (M☉ · day²).
+export const GAUSSIAN_GRAVITATIONAL_CONSTANT = 0.01720209895;
+export const G = GAUSSIAN_GRAVITATIONAL_CONSTANT * GAUSSIAN_GRAVITATIONAL_CONSTANT;
+
+// Plummer softening keeps close encounters from blowing up the step size.
+const SOFTENING = 1e-4; // AU
+
+export interface NBodyParticle {
+  id: string;
+  mass: number;
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+}
+
+export interface NBodySystem {
+  julianDate: number;
+  particles: NBodyParticle[];
+}
+
+export interface IntegratorSettings {
+  stepSize: number; // days, the longest substep for fixed-step methods
+  tolerance: number; // relative local error per step for adaptive methods
+}
+
+export interface Integrator {
+  id: string;
+  name: string;
+  symplectic: boolean;
+  // Adaptive integrators choose their own substeps within `dt`.
+  adaptive: boolean;
+  /** Advances the system by `dt` days and returns a new system. */
+  step: (system: NBodySystem, dt: number, settings: IntegratorSettings) => NBodySystem;
+}
+
+// Time derivative of a particle's state: velocity, then acceleration.
+type ParticleRate = Pick<NBodyParticle, 'x' | 'y' | 'z' | 'vx' | 'vy' | 'vz'>;
+
+/** Gravitational acceleration on every particle from all the others. */
+export function accelerations(particles: NBodyParticle[]): Vector3[] {
+  const result = particles.map(() => ({ x: 0, y: 0, z: 0 }));
+  for (let i = 0; i < particles.length; i++) {
+    for (let j = i + 1; j < particles.length; j++) {
+      const dx = particles[j].x - particles[i].x;
+      const dy = particles[j].y - particles[i].y;
+      const dz = particles[j].z - particles[i].z;
+      const distanceSquared = dx * dx + dy * dy + dz * dz + SOFTENING * SOFTENING;
+      const inverseCube = 1 / (distanceSquared * Math.sqrt(distanceSquared));
+      const towardJ = G * particles[j].mass * inverseCube;
+      const towardI = G * particles[i].mass * inverseCube;
+      result[i].x += towardJ * dx;
+      result[i].y += towardJ * dy;
+      result[i].z += towardJ * dz;
+      result[j].x -= towardI * dx;
+      result[j].y -= towardI * dy;
+      result[j].z -= towardI * dz;
+    }
+  }
+  return result;
+}
+
+function rates(particles: NBodyParticle[]): ParticleRate[] {
+  return accelerations(particles).map((a, i) => {
+    const p = particles[i];
+    return { x: p.vx, y: p.vy, z: p.vz, vx: a.x, vy: a.y, vz: a.z };
+  });
+}
+
+/** particles + dt · Σ weights[k] · stages[k], the building block of Runge–Kutta methods. */
+function combine(particles: NBodyParticle[], stages: ParticleRate[][], weights: number[], dt: number): NBodyParticle[] {
+  return particles.map((p, i) => {
+    const next = { ...p };
+    stages.forEach((stage, k) => {
+      const h = weights[k] * dt;
+      if (h === 0) return;
+      const rate = stage[i];
+      next.x += h * rate.x;
+      next.y += h * rate.y;
+      next.z += h * rate.z;
+      next.vx += h * rate.vx;
+      next.vy += h * rate.vy;
+      next.vz += h * rate.vz;
+    });
+    return next;
+  });
+}
+
+function drift(particles: NBodyParticle[], dt: number): NBodyParticle[] {
+  return particles.map(p => ({ ...p, x: p.x + p.vx * dt, y: p.y + p.vy * dt, z: p.z + p.vz * dt }));
+}
+
+function kick(particles: NBodyParticle[], dt: number): NBodyParticle[] {
+  const a = accelerations(particles);
+  return particles.map((p, i) => ({ ...p, vx: p.vx + a[i].x * dt, vy: p.vy + a[i].y * dt, vz: p.vz + a[i].z * dt }));
+}
+
+/** First-order explicit Euler; energy grows steadily, so orbits spiral outward. */
+export const euler: Integrator = {
+  id: 'euler',
+  name: 'Explicit Euler',
+  symplectic: false,
+  adaptive: false,
+  step: (system, dt) => ({
+    julianDate: system.julianDate + dt,
+    particles: combine(system.particles, [rates(system.particles)], [1], dt),
+  }),
+};
+
+/** Classic fourth-order Runge–Kutta; accurate per step, but energy still drifts slowly. */
+export const rungeKutta4: Integrator = {
+  id: 'rk4',
+  name: 'Runge–Kutta 4',
+  symplectic: false,
+  adaptive: false,
+  step: (system, dt) => {
+    const y = system.particles;
+    const k1 = rates(y);
+    const k2 = rates(combine(y, [k1], [0.5], dt));
+    const k3 = rates(combine(y, [k2], [0.5], dt));
+    const k4 = rates(combine(y, [k3], [1], dt));
+    return {
+      julianDate: system.julianDate + dt,
+      particles: combine(y, [k1, k2, k3, k4], [1 / 6, 1 / 3, 1 / 3, 1 / 6], dt),
+    };
+  },
+};
+
+/** Leapfrog in kick–drift–kick form, equivalent to velocity Verlet. */
+export const leapfrog: Integrator = {
+  id: 'leapfrog',
+  name: 'Leapfrog (velocity Verlet)',
+  symplectic: true,
+  adaptive: false,
+  step: (system, dt) => {
+    const start = accelerations(system.particles);
+    const drifted = system.particles.map((p, i) => {
+      const vx = p.vx + (start[i].x * dt) / 2;
+      const vy = p.vy + (start[i].y * dt) / 2;
+      const vz = p.vz + (start[i].z * dt) / 2;
+      return { ...p, x: p.x + vx * dt, y: p.y + vy * dt, z: p.z + vz * dt, vx, vy, vz };
+    });
+    const end = accelerations(drifted);
+    return {
+      julianDate: system.julianDate + dt,
+      particles: drifted.map((p, i) => ({
+        ...p,
+        vx: p.vx + (end[i].x * dt) / 2,
+        vy: p.vy + (end[i].y * dt) / 2,
+        vz: p.vz + (end[i].z * dt) / 2,
+      })),
+    };
+  },
+};
+
+// Yoshida (1990): three leapfrog steps of sizes w1, w0, w1 cancel the
+// third-order error, giving a fourth-order symplectic method.
+const YOSHIDA_W1 = 1 / (2 - Math.cbrt(2));
+const YOSHIDA_W0 = -Math.cbrt(2) * YOSHIDA_W1;
+const YOSHIDA_DRIFTS = [YOSHIDA_W1 / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2, (YOSHIDA_W0 + YOSHIDA_W1) / 2, YOSHIDA_W1 / 2];
+const YOSHIDA_KICKS = [YOSHIDA_W1, YOSHIDA_W0, YOSHIDA_W1];
+
+export const yoshida4: Integrator = {
+  id: 'yoshida4',
+  name: 'Yoshida 4th order',
+  symplectic: true,
+  adaptive: false,
+  step: (system, dt) => {
+    let particles = system.particles;
+    YOSHIDA_DRIFTS.forEach((c, i) => {
+      particles = drift(particles, c * dt);
+      if (i < YOSHIDA_KICKS.length) particles = kick(particles, YOSHIDA_KICKS[i] * dt);
+    });
+    return { julianDate: system.julianDate + dt, particles };
+  },
+};
+
+// Dormand–Prince 5(4) tableau: stage coefficients, the fifth-order weights
+// and their difference from the embedded fourth-order weights.
+const DOPRI_A = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+const DOPRI_B = [...DOPRI_A[6], 0];
+const DOPRI_ERROR = [71 / 57600, 0, -71 / 16695, 71 / 1920, -17253 / 339200, 22 / 525, -1 / 40];
+const MIN_ADAPTIVE_STEP = 1e-6; // days
+const MAX_ADAPTIVE_ATTEMPTS = 10000; // per call, so a blown-up state can't hang the page
+
+// Error in each particle's position and velocity, relative to its distance
+// and speed (with floors so the near-stationary Sun doesn't dominate).
+function errorNorm(particles: NBodyParticle[], error: NBodyParticle[], tolerance: number): number {
+  return particles.reduce((worst, p, i) => {
+    const e = error[i];
+    const positionError = Math.hypot(e.x - p.x, e.y - p.y, e.z - p.z) / Math.max(Math.hypot(p.x, p.y, p.z), 1e-2);
+    const velocityError = Math.hypot(e.vx - p.vx, e.vy - p.vy, e.vz - p.vz) / Math.max(Math.hypot(p.vx, p.vy, p.vz), 1e-4);
+    return Math.max(worst, positionError / tolerance, velocityError / tolerance);
+  }, 0);
+}
+
+/** Adaptive Dormand–Prince 5(4): shrinks the step near close approaches to keep the local error under tolerance. */
+export const dormandPrince: Integrator = {
+  id: 'dopri5',
+  name: 'Dormand–Prince 5(4), adaptive',
+  symplectic: false,
+  adaptive: true,
+  step: (system, dt, { stepSize, tolerance }) => {
+    let particles = system.particles;
+    let elapsed = 0;
+    let h = Math.sign(dt) * Math.min(Math.abs(dt), stepSize);
+    for (let attempt = 0; attempt < MAX_ADAPTIVE_ATTEMPTS && Math.abs(elapsed) < Math.abs(dt); attempt++) {
+      if (Math.abs(dt - elapsed) < Math.abs(h)) h = dt - elapsed;
+      const stages: ParticleRate[][] = [];
+      DOPRI_A.forEach(weights => stages.push(rates(combine(particles, stages, weights, h))));
+      const next = combine(particles, stages, DOPRI_B, h);
+      const error = errorNorm(next, combine(next, stages, DOPRI_ERROR, h), tolerance);
+      if (error <= 1 || Math.abs(h) <= MIN_ADAPTIVE_STEP) {
+        particles = next;
+        elapsed += h;
+      }
+      // Standard step-size controller with safety factor 0.9, limited to ×0.2–×5.
+      h *= Number.isFinite(error) ? Math.min(5, Math.max(0.2, 0.9 * Math.pow(Math.max(error, 1e-10), -0.2))) : 0.2;
+      if (Math.abs(h) < MIN_ADAPTIVE_STEP) h = Math.sign(dt) * MIN_ADAPTIVE_STEP;
+    }
+    return { julianDate: system.julianDate + elapsed, particles };
+  },
+};
+
+export const INTEGRATORS: Integrator[] = [euler, rungeKutta4, leapfrog, yoshida4, dormandPrince];
+
+export function getIntegrator(id: string): Integrator {
+  return INTEGRATORS.find(integrator => integrator.id === id) ?? leapfrog;
+}
+
+/**
+ * Advances the system by `duration` days. Fixed-step methods take equal
+ * substeps no longer than `settings.stepSize`, so a large frame time doesn't
+ * degrade accuracy; adaptive ones pick their own.
+ */
+export function advanceSystem(system: NBodySystem, duration: number, integrator: Integrator, settings: IntegratorSettings): NBodySystem {
+  if (duration === 0) return system;
+  if (integrator.adaptive) return integrator.step(system, duration, settings);
+  const steps = Math.ceil(Math.abs(duration) / settings.stepSize);
+  const dt = duration / steps;
+  let next = system;
+  for (let i = 0; i < steps; i++) {
+    next = integrator.step(next, dt, settings);
+  }
+  return next;
+}
+
+/**
+ * Sun and planets at `jd`, taken from the ephemeris and shifted to the
+ * barycentric frame so the system doesn't drift. Velocities come from a
+ * central difference of the ephemeris positions. `testBodies` are added as
+ * massless particles that feel the planets but don't pull on them.
+ */
+export function solarSystemAt(jd: number, testBodies: { id: string; elements: MeanElements }[] = []): NBodySystem {
+  const h = 0.5; // days
+  const bodies = [...PLANETS, ...testBodies.map(body => ({ ...body, mass: 0 }))];
+  const planets = bodies.map(planet => {
+    const now = heliocentricPosition(planet.elements, jd);
+    const before = heliocentricPosition(planet.elements, jd - h);
+    const after = heliocentricPosition(planet.elements, jd + h);
+    return {
+      id: planet.id,
+      mass: planet.mass,
+      x: now.x,
+      y: now.y,
+      z: now.z,
+      vx: (after.x - before.x) / (2 * h),
+      vy: (after.y - before.y) / (2 * h),
+      vz: (after.z - before.z) / (2 * h),
+    };
+  });
+  const particles: NBodyParticle[] = [{ id: 'sun', mass: 1, x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0 }, ...planets];
+
+  const totalMass = particles.reduce((sum, p) => sum + p.mass, 0);
+  const center = particles.reduce(
+    (sum, p) => ({
+      x: sum.x + p.mass * p.x,
+      y: sum.y + p.mass * p.y,
+      z: sum.z + p.mass * p.z,
+      vx: sum.vx + p.mass * p.vx,
+      vy: sum.vy + p.mass * p.vy,
+      vz: sum.vz + p.mass * p.vz,
+    }),
+    { x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0 }
+  );
+  return {
+    julianDate: jd,
+    particles: particles.map(p => ({
+      ...p,
+      x: p.x - center.x / totalMass,
+      y: p.y - center.y / totalMass,
+      z: p.z - center.z / totalMass,
+      vx: p.vx - center.vx / totalMass,
+      vy: p.vy - center.vy / totalMass,
+      vz: p.vz - center.vz / totalMass,
+    })),
+  };
+}
+
+/** Scales one particle's velocity by `factor`, e.g. 1.1 for a 10% prograde boost. */
+export function scaleVelocity(system: NBodySystem, id: string, factor: number): NBodySystem {
+  return {
+    ...system,
+    particles: system.particles.map(p => (p.id === id ? { ...p, vx: p.vx * factor, vy: p.vy * factor, vz: p.vz * factor } : p)),
+  };
+}
+
+export interface RelativeState {
+  position: Vector3;
+  velocity: Vector3;
+  orbit: OsculatingOrbit;
+}
+
+/** A particle's position, velocity and osculating orbit relative to another (normally the Sun). */
+export function relativeState(system: NBodySystem, id: string, centralId = 'sun'): RelativeState | undefined {
+  const body = system.particles.find(p => p.id === id);
+  const central = system.particles.find(p => p.id === centralId);
+  if (!body || !central) return undefined;
+  const position = { x: body.x - central.x, y: body.y - central.y, z: body.z - central.z };
+  const velocity = { x: body.vx - central.vx, y: body.vy - central.vy, z: body.vz - central.vz };
+  return { position, velocity, orbit: osculatingOrbit(position, velocity, G * (central.mass + body.mass)) };
+}
+
+/**
+ * Expresses a relative state in the same shape as the ephemeris output, so
+ * the renderer can draw integrated bodies like prescribed ones. Anomalies
+ * other than the true anomaly are NaN on unbound orbits.
+ */
+export function heliocentricFromState({ position, orbit }: RelativeState): HeliocentricPosition {
+  const radius = Math.hypot(position.x, position.y, position.z);
+  const { eccentricity, eccentricAnomaly } = orbit;
+  return {
+    ...position,
+    radius,
+    longitude: normalizeAngle(Math.atan2(position.y, position.x)),
+    latitude: Math.asin(position.z / radius),
+    semiMajorAxis: orbit.semiMajorAxis,
+    eccentricity,
+    longitudeOfPerihelion: orbit.longitudeOfPeriapsis,
+    meanAnomaly: eccentricity < 1 ? eccentricAnomaly - eccentricity * Math.sin(eccentricAnomaly) : NaN,
+    eccentricAnomaly,
+    trueAnomaly: orbit.trueAnomaly,
+  };
+}
+
+export interface ConservedQuantities {
+  energy: number; // M☉·AU²/day², kinetic plus (softened) potential
+  angularMomentum: Vector3; // M☉·AU²/day
+}
+
+/** Total energy and angular momentum, which exact gravity conserves. */
+export function conservedQuantities({ particles }: NBodySystem): ConservedQuantities {
+  let energy = 0;
+  const angularMomentum = { x: 0, y: 0, z: 0 };
+  particles.forEach((p, i) => {
+    energy += 0.5 * p.mass * (p.vx * p.vx + p.vy * p.vy + p.vz * p.vz);
+    angularMomentum.x += p.mass * (p.y * p.vz - p.z * p.vy);
+    angularMomentum.y += p.mass * (p.z * p.vx - p.x * p.vz);
+    angularMomentum.z += p.mass * (p.x * p.vy - p.y * p.vx);
+    for (let j = i + 1; j < particles.length; j++) {
+      const q = particles[j];
+      const distance = Math.sqrt((q.x - p.x) ** 2 + (q.y - p.y) ** 2 + (q.z - p.z) ** 2 + SOFTENING * SOFTENING);
+      energy -= (G * p.mass * q.mass) / distance;
+    }
+  });
+  return { energy, angularMomentum };
+}
+
+/** Relative energy error and relative angular-momentum error against a reference state. */
+export function conservationErrors(reference: ConservedQuantities, current: ConservedQuantities) {
+  const L0 = reference.angularMomentum;
+  const L = current.angularMomentum;
+  return {
+    energy: Math.abs((current.energy - reference.energy) / reference.energy),
+    angularMomentum: Math.hypot(L.x - L0.x, L.y - L0.y, L.z - L0.z) / Math.hypot(L0.x, L0.y, L0.z),
+  };
+}
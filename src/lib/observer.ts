@@ -0,0 +1,122 @@
+// The Sun's daily course for an observer on Earth. Local solar noon falls
+// when the Sun crosses the meridian, which is the longitude's share of the
+// day after 12:00 UT, shifted by the equation of time. Rising and setting
+// are symmetric about noon, by the hour angle at which the Sun's centre
+// reaches a given altitude; twilights are the same sum for deeper altitudes.
+
+import { DEG_TO_RAD, RAD_TO_DEG, TWO_PI } from '@/lib/orbital-mechanics';
+import { meanObliquity } from '@/lib/earth-rotation';
+import { solarCoordinates } from '@/lib/solar-time';
+
+export interface Observer {
+  latitude: number; // degrees, north positive
+  longitude: number; // degrees, east positive
+}
+
+export interface City extends Observer {
+  id: string;
+  name: string;
+  timeZone: string; // IANA zone for displaying local clock times
+}
+
+export const CITIES: City[] = [
+  { id: 'london', name: 'London', latitude: 51.5074, longitude: -0.1278, timeZone: 'Europe/London' },
+  { id: 'new-york', name: 'New York', latitude: 40.7128, longitude: -74.006, timeZone: 'America/New_York' },
+  { id: 'reykjavik', name: 'Reykjavík', latitude: 64.1466, longitude: -21.9426, timeZone: 'Atlantic/Reykjavik' },
+  { id: 'tromso', name: 'Tromsø', latitude: 69.6492, longitude: 18.9553, timeZone: 'Europe/Oslo' },
+  { id: 'mumbai', name: 'Mumbai', latitude: 19.076, longitude: 72.8777, timeZone: 'Asia/Kolkata' },
+  { id: 'singapore', name: 'Singapore', latitude: 1.3521, longitude: 103.8198, timeZone: 'Asia/Singapore' },
+  { id: 'tokyo', name: 'Tokyo', latitude: 35.6762, longitude: 139.6503, timeZone: 'Asia/Tokyo' },
+  { id: 'sydney', name: 'Sydney', latitude: -33.8688, longitude: 151.2093, timeZone: 'Australia/Sydney' },
+  { id: 'cape-town', name: 'Cape Town', latitude: -33.9249, longitude: 18.4241, timeZone: 'Africa/Johannesburg' },
+  { id: 'buenos-aires', name: 'Buenos Aires', latitude: -34.6037, longitude: -58.3816, timeZone: 'America/Argentina/Buenos_Aires' },
+  { id: 'mcmurdo', name: 'McMurdo Station', latitude: -77.846, longitude: 166.676, timeZone: 'Antarctica/McMurdo' },
+];
+
+export const DEFAULT_CITY = CITIES[0];
+
+export function getCity(id: string): City | undefined {
+  return CITIES.find(city => city.id === id);
+}
+
+export type HorizonId = 'sunrise' | 'civil' | 'nautical' | 'astronomical';
+
+// Altitude of the Sun's centre at each event, degrees. Sunrise and sunset
+// allow for refraction (34′) and the Sun's radius (16′).
+export const HORIZON_ALTITUDES: Record<HorizonId, number> = {
+  sunrise: -0.833,
+  civil: -6,
+  nautical: -12,
+  astronomical: -18,
+};
+
+export interface HorizonCrossing {
+  rise: number | null; // Julian date, or null if the Sun doesn't cross this altitude today
+  set: number | null;
+  polar: 'day' | 'night' | null; // the Sun stays above / below this altitude all day
+}
+
+export interface SunEvents {
+  noon: number; // Julian date of solar noon
+  noonElevation: number; // degrees
+  crossings: Record<HorizonId, HorizonCrossing>;
+  dayLength: number; // hours from sunrise to sunset
+}
+
+const MINUTES_PER_DAY = 24 * 60;
+const CROSSING_ITERATIONS = 3;
+
+/** Julian date of the local mean midnight that begins the observer's day containing `jd`. */
+export function localMidnight(jd: number, longitude: number): number {
+  const offset = longitude / 360;
+  return Math.floor(jd + offset - 0.5) + 0.5 - offset;
+}
+
+/** Rise, set and noon times for the observer's local day containing `jd`. `obliquity` is in radians. */
+export function sunEvents(jd: number, { latitude, longitude }: Observer, obliquity = meanObliquity(jd) * DEG_TO_RAD): SunEvents {
+  const midnight = localMidnight(jd, longitude);
+  const phi = latitude * DEG_TO_RAD;
+  // Meridian transit, with the equation of time taken at `t`.
+  const transit = (t: number) => midnight + 0.5 - solarCoordinates(t, obliquity).equationOfTime / MINUTES_PER_DAY;
+  const noon = transit(transit(midnight + 0.5));
+
+  // Each pass re-evaluates the declination and equation of time at the
+  // previous estimate, which settles to well under a minute.
+  const crossTime = (altitude: number, direction: -1 | 1): number | 'day' | 'night' => {
+    let t = noon;
+    for (let i = 0; i < CROSSING_ITERATIONS; i++) {
+      const { declination } = solarCoordinates(t, obliquity);
+      const cosHourAngle = (Math.sin(altitude * DEG_TO_RAD) - Math.sin(phi) * Math.sin(declination)) / (Math.cos(phi) * Math.cos(declination));
+      if (cosHourAngle > 1) return 'night';
+      if (cosHourAngle < -1) return 'day';
+      t = transit(t) + (direction * Math.acos(cosHourAngle)) / TWO_PI;
+    }
+    return t;
+  };
+
+  const crossing = (id: HorizonId): HorizonCrossing => {
+    const rise = crossTime(HORIZON_ALTITUDES[id], -1);
+    const set = crossTime(HORIZON_ALTITUDES[id], 1);
+    return {
+      rise: typeof rise === 'number' ? rise : null,
+      set: typeof set === 'number' ? set : null,
+      polar: typeof rise === 'string' ? rise : typeof set === 'string' ? set : null,
+    };
+  };
+
+  const crossings: Record<HorizonId, HorizonCrossing> = {
+    sunrise: crossing('sunrise'),
+    civil: crossing('civil'),
+    nautical: crossing('nautical'),
+    astronomical: crossing('astronomical'),
+  };
+  const { rise, set, polar } = crossings.sunrise;
+  const { declination } = solarCoordinates(noon, obliquity);
+
+  return {
+    noon,
+    noonElevation: 90 - Math.abs(latitude - declination * RAD_TO_DEG),
+    crossings,
+    dayLength: rise !== null && set !== null ? (set - rise) * 24 : polar === 'day' ? 24 : 0,
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { julianDate } from '@/lib/ephemeris';
+import { nextOrbitEvents, orbitEventsAround, previousOrbitEvents, type OrbitEventId } from '@/lib/orbit-events';
+
+const utc = (iso: string) => julianDate(new Date(`${iso}Z`));
+
+// Published instants (UTC, to the minute).
+const PUBLISHED: Record<number, Record<OrbitEventId, string>> = {
+  2024: {
+    'perihelion': '2024-01-03T00:39',
+    'march-equinox': '2024-03-20T03:06',
+    'june-solstice': '2024-06-20T20:51',
+    'aphelion': '2024-07-05T05:06',
+    'september-equinox': '2024-09-22T12:44',
+    'december-solstice': '2024-12-21T09:20',
+  },
+  2025: {
+    'perihelion': '2025-01-04T13:28',
+    'march-equinox': '2025-03-20T09:01',
+    'june-solstice': '2025-06-21T02:42',
+    'aphelion': '2025-07-03T19:55',
+    'september-equinox': '2025-09-22T18:19',
+    'december-solstice': '2025-12-21T15:03',
+  },
+};
+
+const MINUTE = 1 / 1440; // days
+
+describe('nextOrbitEvents', () => {
+  it.each([2024, 2025])('times the equinoxes and solstices of %i to the minute and the apsides to within ten', year => {
+    const events = nextOrbitEvents(utc(`${year}-01-01T00:00`));
+    expect(events.map(({ id }) => id)).toEqual(Object.keys(PUBLISHED[year]));
+    for (const { id, julianDate } of events) {
+      const tolerance = id === 'perihelion' || id === 'aphelion' ? 10 * MINUTE : 1.5 * MINUTE;
+      expect(Math.abs(julianDate - utc(PUBLISHED[year][id]))).toBeLessThan(tolerance);
+    }
+  });
+
+  it('moves on to the following year once an event has passed', () => {
+    const equinox = nextOrbitEvents(utc('2024-01-01T00:00')).find(({ id }) => id === 'march-equinox')!;
+    const next = nextOrbitEvents(equinox.julianDate).find(({ id }) => id === 'march-equinox')!;
+    expect(Math.abs(next.julianDate - utc(PUBLISHED[2025]['march-equinox']))).toBeLessThan(1.5 * MINUTE);
+  });
+});
+
+describe('previousOrbitEvents', () => {
+  it('finds the last of each event, most recent first', () => {
+    const events = previousOrbitEvents(utc('2025-01-01T00:00'));
+    expect(events.map(({ id }) => id)).toEqual(Object.keys(PUBLISHED[2024]).reverse());
+    const solstice = events[0];
+    expect(Math.abs(solstice.julianDate - utc(PUBLISHED[2024]['december-solstice']))).toBeLessThan(1.5 * MINUTE);
+  });
+});
+
+describe('orbitEventsAround', () => {
+  it('brackets the date', () => {
+    const jd = utc('2024-08-01T00:00');
+    const { next, previous } = orbitEventsAround(jd);
+    expect(next[0].id).toBe('september-equinox');
+    expect(previous[0].id).toBe('aphelion');
+    expect(next.every(event => event.julianDate > jd)).toBe(true);
+    expect(previous.every(event => event.julianDate < jd)).toBe(true);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEG_TO_RAD,
+  RAD_TO_DEG,
+  conicStateAtTime,
+  eccentricToTrueAnomaly,
+  normalizeAngle,
+  osculatingOrbit,
+  propagateOrbit,
+  solveHyperbolicKepler,
+  solveKepler,
+  wrapAngle,
+} from '@/lib/orbital-mechanics';
+
+const MU_SUN = 0.01720209895 ** 2; // AU³/day²
+
+describe('angle wrapping', () => {
+  it('normalizes into [0, 2π)', () => {
+    expect(normalizeAngle(-0.5)).toBeCloseTo(2 * Math.PI - 0.5, 12);
+    expect(normalizeAngle(5 * Math.PI)).toBeCloseTo(Math.PI, 12);
+  });
+
+  it('wraps differences into (−π, π]', () => {
+    expect(wrapAngle(1.5 * Math.PI)).toBeCloseTo(-0.5 * Math.PI, 12);
+    expect(wrapAngle(-Math.PI)).toBeCloseTo(Math.PI, 12);
+    expect(wrapAngle(Math.PI)).toBeCloseTo(Math.PI, 12);
+  });
+});
+
+describe('solveKepler', () => {
+  // Meeus, "Astronomical Algorithms", examples 30.a and 30.b.
+  it('matches the worked examples', () => {
+    expect(solveKepler(5 * DEG_TO_RAD, 0.1) * RAD_TO_DEG).toBeCloseTo(5.554589, 6);
+    expect(solveKepler(2 * DEG_TO_RAD, 0.99) * RAD_TO_DEG).toBeCloseTo(32.361007, 6);
+  });
+
+  it('satisfies M = E − e·sin E near periapsis of a very eccentric orbit', () => {
+    const E = solveKepler(0.001, 0.999);
+    expect(E - 0.999 * Math.sin(E)).toBeCloseTo(0.001, 12);
+  });
+});
+
+describe('solveHyperbolicKepler', () => {
+  it('satisfies M = e·sinh H − H', () => {
+    const H = solveHyperbolicKepler(10, 1.5);
+    expect(1.5 * Math.sinh(H) - H).toBeCloseTo(10, 10);
+  });
+});
+
+describe('eccentricToTrueAnomaly', () => {
+  it('is ahead of the eccentric anomaly on the way out', () => {
+    expect(eccentricToTrueAnomaly(Math.PI / 2, 0.5)).toBeCloseTo(2 * Math.PI / 3, 12);
+  });
+});
+
+describe('propagateOrbit', () => {
+  it('reaches apoapsis half a period after periapsis', () => {
+    const elements = { semiMajorAxis: 1, eccentricity: 0.0167, period: 365.25, meanAnomalyAtEpoch: 0, argumentOfPeriapsis: 0 };
+    const state = propagateOrbit(elements, 365.25 / 2);
+    expect(state.radius).toBeCloseTo(1.0167, 12);
+    expect(state.x).toBeCloseTo(-1.0167, 12);
+  });
+});
+
+describe('conicStateAtTime', () => {
+  it('is continuous across the parabolic case', () => {
+    const parabola = conicStateAtTime(1, 1, 30, MU_SUN);
+    const ellipse = conicStateAtTime(1, 1 - 2e-6, 30, MU_SUN);
+    const hyperbola = conicStateAtTime(1, 1 + 2e-6, 30, MU_SUN);
+    expect(ellipse.trueAnomaly).toBeCloseTo(parabola.trueAnomaly, 5);
+    expect(hyperbola.trueAnomaly).toBeCloseTo(parabola.trueAnomaly, 5);
+    expect(ellipse.radius).toBeCloseTo(parabola.radius, 5);
+  });
+});
+
+describe('osculatingOrbit', () => {
+  it('recovers an ellipse from its periapsis speed', () => {
+    const orbit = osculatingOrbit({ x: 1, y: 0, z: 0 }, { x: 0, y: Math.sqrt(MU_SUN * (2 - 1 / 1.5)), z: 0 }, MU_SUN);
+    expect(orbit.semiMajorAxis).toBeCloseTo(1.5, 10);
+    expect(orbit.eccentricity).toBeCloseTo(1 / 3, 10);
+    expect(orbit.trueAnomaly).toBeCloseTo(0, 10);
+  });
+
+  it('gives a negative semi-major axis above escape speed', () => {
+    const orbit = osculatingOrbit({ x: 1, y: 0, z: 0 }, { x: 0, y: Math.sqrt(3 * MU_SUN), z: 0 }, MU_SUN);
+    expect(orbit.semiMajorAxis).toBeCloseTo(-1, 10);
+    expect(orbit.eccentricity).toBeCloseTo(2, 10);
+    expect(orbit.eccentricAnomaly).toBeNaN();
+  });
+});
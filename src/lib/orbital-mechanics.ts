@@ -0,0 +1,224 @@
+// Two-body orbital mechanics helpers shared by the visualizer.
+// Angles are in radians unless a name says otherwise.
+
+export const TWO_PI = 2 * Math.PI;
+export const DEG_TO_RAD = Math.PI / 180;
+export const RAD_TO_DEG = 180 / Math.PI;
+
+export interface Vector2 {
+  x: number;
+  y: number;
+}
+
+export interface OrbitalElements {
+  semiMajorAxis: number;
+  eccentricity: number;
+  period: number; // days
+  meanAnomalyAtEpoch: number; // radians, at t = 0
+  argumentOfPeriapsis: number; // radians, measured from the +x axis
+}
+
+export interface OrbitState {
+  meanAnomaly: number;
+  eccentricAnomaly: number;
+  trueAnomaly: number;
+  radius: number;
+  x: number;
+  y: number;
+}
+
+/** Wraps an angle into the range [0, 2π). */
+export function normalizeAngle(angle: number): number {
+  const wrapped = angle % TWO_PI;
+  return wrapped < 0 ? wrapped + TWO_PI : wrapped;
+}
+
+/** Wraps an angle into the range (−π, π], e.g. a difference between two directions. */
+export function wrapAngle(angle: number): number {
+  return Math.PI - normalizeAngle(Math.PI - angle);
+}
+
+/**
+ * Solves Kepler's equation M = E - e·sin(E) for the eccentric anomaly E
+ * using Newton-Raphson iteration. Valid for elliptical orbits (0 ≤ e < 1).
+ */
+export function solveKepler(meanAnomaly: number, eccentricity: number, tolerance = 1e-12, maxIterations = 50): number {
+  const M = normalizeAngle(meanAnomaly);
+  // Starting at π for high eccentricities avoids overshooting near periapsis.
+  let E = eccentricity < 0.8 ? M : Math.PI;
+  for (let i = 0; i < maxIterations; i++) {
+    const delta = (E - eccentricity * Math.sin(E) - M) / (1 - eccentricity * Math.cos(E));
+    E -= delta;
+    if (Math.abs(delta) < tolerance) break;
+  }
+  return E;
+}
+
+/** Converts eccentric anomaly to true anomaly, the angle measured from periapsis at the focus. */
+export function eccentricToTrueAnomaly(eccentricAnomaly: number, eccentricity: number): number {
+  const halfE = eccentricAnomaly / 2;
+  return normalizeAngle(
+    2 * Math.atan2(
+      Math.sqrt(1 + eccentricity) * Math.sin(halfE),
+      Math.sqrt(1 - eccentricity) * Math.cos(halfE)
+    )
+  );
+}
+
+/**
+ * Solves the hyperbolic form of Kepler's equation, M = e·sinh(H) − H, for
+ * the hyperbolic anomaly H using Newton-Raphson iteration (e > 1). M is not
+ * wrapped: it grows without bound as the body recedes.
+ */
+export function solveHyperbolicKepler(meanAnomaly: number, eccentricity: number, tolerance = 1e-12, maxIterations = 50): number {
+  let H = Math.asinh(meanAnomaly / eccentricity);
+  for (let i = 0; i < maxIterations; i++) {
+    const delta = (eccentricity * Math.sinh(H) - H - meanAnomaly) / (eccentricity * Math.cosh(H) - 1);
+    H -= delta;
+    if (Math.abs(delta) < tolerance) break;
+  }
+  return H;
+}
+
+export interface ConicState {
+  trueAnomaly: number; // radians, negative before periapsis on open orbits
+  radius: number; // same units as the periapsis distance
+}
+
+// Orbits this close to e = 1 are treated as parabolas, where the elliptical
+// and hyperbolic forms lose precision.
+const PARABOLIC_TOLERANCE = 1e-6;
+
+/**
+ * Position along an ellipse, parabola or hyperbola `time` days after
+ * periapsis, given the periapsis distance q (which, unlike the semi-major
+ * axis, is finite for every conic) and `mu` = G·M of the central body.
+ * Parabolas use Barker's equation.
+ */
+export function conicStateAtTime(periapsisDistance: number, eccentricity: number, time: number, mu: number): ConicState {
+  const q = periapsisDistance;
+  const e = eccentricity;
+  if (Math.abs(e - 1) < PARABOLIC_TOLERANCE) {
+    // tan(ν/2) + tan³(ν/2)/3 = √(μ/2q³)·t, a cubic with one real root.
+    const B = 1.5 * Math.sqrt(mu / (2 * q * q * q)) * time;
+    const y = Math.cbrt(B + Math.sqrt(B * B + 1));
+    const s = y - 1 / y;
+    return { trueAnomaly: 2 * Math.atan(s), radius: q * (1 + s * s) };
+  }
+  const a = q / Math.abs(1 - e);
+  const meanMotion = Math.sqrt(mu / (a * a * a));
+  if (e < 1) {
+    const eccentricAnomaly = solveKepler(meanMotion * time, e);
+    return { trueAnomaly: eccentricToTrueAnomaly(eccentricAnomaly, e), radius: a * (1 - e * Math.cos(eccentricAnomaly)) };
+  }
+  const H = solveHyperbolicKepler(meanMotion * time, e);
+  return {
+    trueAnomaly: 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2)),
+    radius: a * (e * Math.cosh(H) - 1),
+  };
+}
+
+/** Mean anomaly after `time` days, given the mean anomaly at t = 0. */
+export function meanAnomalyAt(elements: Pick<OrbitalElements, 'period' | 'meanAnomalyAtEpoch'>, time: number): number {
+  return normalizeAngle(elements.meanAnomalyAtEpoch + (TWO_PI * time) / elements.period);
+}
+
+/**
+ * Propagates an orbit to `time` days. The returned position is relative to
+ * the focus occupied by the central body, in the same units as the
+ * semi-major axis.
+ */
+export function propagateOrbit(elements: OrbitalElements, time: number): OrbitState {
+  const { semiMajorAxis: a, eccentricity: e, argumentOfPeriapsis } = elements;
+  const meanAnomaly = meanAnomalyAt(elements, time);
+  const eccentricAnomaly = solveKepler(meanAnomaly, e);
+  const trueAnomaly = eccentricToTrueAnomaly(eccentricAnomaly, e);
+  const radius = a * (1 - e * Math.cos(eccentricAnomaly));
+  const angle = trueAnomaly + argumentOfPeriapsis;
+  return {
+    meanAnomaly,
+    eccentricAnomaly,
+    trueAnomaly,
+    radius,
+    x: radius * Math.cos(angle),
+    y: radius * Math.sin(angle),
+  };
+}
+
+/** Semi-minor axis b = a·√(1 − e²) of an ellipse. */
+export function semiMinorAxis(semiMajorAxis: number, eccentricity: number): number {
+  return semiMajorAxis * Math.sqrt(1 - eccentricity * eccentricity);
+}
+
+/**
+ * Point on an ellipse for a given eccentric anomaly, relative to the focus,
+ * with periapsis along the +x axis.
+ */
+export function positionFromEccentricAnomaly(semiMajorAxis: number, eccentricity: number, eccentricAnomaly: number): Vector2 {
+  return {
+    x: semiMajorAxis * (Math.cos(eccentricAnomaly) - eccentricity),
+    y: semiMinorAxis(semiMajorAxis, eccentricity) * Math.sin(eccentricAnomaly),
+  };
+}
+
+/** Rotates a point about the origin by `angle` radians. */
+export function rotatePoint(point: Vector2, angle: number): Vector2 {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return {
+    x: point.x * cos - point.y * sin,
+    y: point.x * sin + point.y * cos,
+  };
+}
+
+export interface Vector3 extends Vector2 {
+  z: number;
+}
+
+export interface OsculatingOrbit {
+  semiMajorAxis: number; // negative for hyperbolic orbits
+  eccentricity: number;
+  longitudeOfPeriapsis: number; // radians, of the periapsis direction projected onto the x–y plane
+  trueAnomaly: number;
+  eccentricAnomaly: number; // NaN unless the orbit is elliptical
+}
+
+/**
+ * Two-body orbit that a body would follow from its current position and
+ * velocity relative to the central body, where `mu` = G·(M + m).
+ */
+export function osculatingOrbit(position: Vector3, velocity: Vector3, mu: number): OsculatingOrbit {
+  const r = Math.hypot(position.x, position.y, position.z);
+  const speedSquared = velocity.x * velocity.x + velocity.y * velocity.y + velocity.z * velocity.z;
+  const radialVelocity = position.x * velocity.x + position.y * velocity.y + position.z * velocity.z;
+
+  // Eccentricity vector, pointing at periapsis.
+  const scale = speedSquared - mu / r;
+  const ex = (scale * position.x - radialVelocity * velocity.x) / mu;
+  const ey = (scale * position.y - radialVelocity * velocity.y) / mu;
+  const ez = (scale * position.z - radialVelocity * velocity.z) / mu;
+  const eccentricity = Math.hypot(ex, ey, ez);
+
+  let trueAnomaly: number;
+  let longitudeOfPeriapsis: number;
+  if (eccentricity > 1e-10) {
+    const cosNu = Math.max(-1, Math.min(1, (ex * position.x + ey * position.y + ez * position.z) / (eccentricity * r)));
+    trueAnomaly = radialVelocity >= 0 ? Math.acos(cosNu) : TWO_PI - Math.acos(cosNu);
+    longitudeOfPeriapsis = normalizeAngle(Math.atan2(ey, ex));
+  } else {
+    // Circular: measure from the +x axis.
+    trueAnomaly = normalizeAngle(Math.atan2(position.y, position.x));
+    longitudeOfPeriapsis = 0;
+  }
+  const eccentricAnomaly = eccentricity < 1
+    ? normalizeAngle(2 * Math.atan2(Math.sqrt(1 - eccentricity) * Math.sin(trueAnomaly / 2), Math.sqrt(1 + eccentricity) * Math.cos(trueAnomaly / 2)))
+    : NaN;
+
+  return {
+    semiMajorAxis: 1 / (2 / r - speedSquared / mu),
+    eccentricity,
+    longitudeOfPeriapsis,
+    trueAnomaly,
+    eccentricAnomaly,
+  };
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { julianDate, solarLongitude } from '@/lib/ephemeris';
+import { DEG_TO_RAD } from '@/lib/orbital-mechanics';
+import { seasonStatus } from '@/lib/seasons';
+
+const MAY = new Date(Date.UTC(2024, 4, 5));
+const FEBRUARY = new Date(Date.UTC(2024, 1, 20));
+
+describe('seasonStatus', () => {
+  it('follows the Sun in the astronomical definition', () => {
+    expect(seasonStatus(45 * DEG_TO_RAD, MAY, 'north', 'astronomical').season).toBe('Spring');
+    expect(seasonStatus(135 * DEG_TO_RAD, MAY, 'north', 'astronomical').season).toBe('Summer');
+    expect(seasonStatus(315 * DEG_TO_RAD, MAY, 'north', 'astronomical').season).toBe('Winter');
+    expect(seasonStatus(45 * DEG_TO_RAD, MAY, 'south', 'astronomical').season).toBe('Autumn');
+  });
+
+  it('follows the calendar in the meteorological definition', () => {
+    expect(seasonStatus(45 * DEG_TO_RAD, FEBRUARY, 'north', 'meteorological').season).toBe('Winter');
+    expect(seasonStatus(45 * DEG_TO_RAD, FEBRUARY, 'south', 'meteorological').season).toBe('Summer');
+    expect(seasonStatus(315 * DEG_TO_RAD, MAY, 'north', 'meteorological').season).toBe('Spring');
+  });
+
+  it('names the event within about a day of it, from either side', () => {
+    expect(seasonStatus(0.5 * DEG_TO_RAD, MAY, 'north', 'astronomical').event).toBe('Vernal Equinox');
+    expect(seasonStatus(359.5 * DEG_TO_RAD, MAY, 'north', 'astronomical')).toEqual({ season: 'Winter', event: 'Vernal Equinox' });
+    expect(seasonStatus(0.5 * DEG_TO_RAD, MAY, 'south', 'astronomical').event).toBe('Autumnal Equinox');
+    expect(seasonStatus(3 * DEG_TO_RAD, MAY, 'north', 'astronomical').event).toBeNull();
+  });
+
+  // 2024 June solstice: June 20, 20:51 UTC.
+  it('marks the solstice from the ephemeris', () => {
+    const date = new Date(Date.UTC(2024, 5, 20, 20, 51));
+    expect(seasonStatus(solarLongitude(julianDate(date)), date, 'north', 'astronomical').event).toBe('Summer Solstice');
+    expect(seasonStatus(solarLongitude(julianDate(date)), date, 'south', 'astronomical').event).toBe('Winter Solstice');
+  });
+});
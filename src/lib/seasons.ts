@@ -0,0 +1,44 @@
+// Seasons and their boundary events. Astronomical seasons run between the
+// equinoxes and solstices, i.e. between the Sun's ecliptic longitudes 0°,
+// 90°, 180° and 270°, so they follow the orbit itself rather than a fixed
+// calendar. Meteorological seasons are whole calendar months (March–May is
+// northern spring), which is how climate records are kept. The Southern
+// Hemisphere has the same events with the seasons swapped.
+
+import { normalizeAngle } from '@/lib/orbital-mechanics';
+
+export type Hemisphere = 'north' | 'south';
+export type SeasonDefinition = 'astronomical' | 'meteorological';
+export type Season = 'Spring' | 'Summer' | 'Autumn' | 'Winter';
+
+export interface SeasonStatus {
+  season: Season;
+  event: string | null; // the equinox or solstice, if it is within about a day
+}
+
+// Northern seasons and events, starting at the March equinox (longitude 0°).
+const SEASONS: Season[] = ['Spring', 'Summer', 'Autumn', 'Winter'];
+const EVENTS = ['Vernal Equinox', 'Summer Solstice', 'Autumnal Equinox', 'Winter Solstice'];
+
+const QUARTER = Math.PI / 2;
+const MARCH = 2; // UTC month index where meteorological spring begins
+// The Sun moves ~0.99° a day, so this labels the event's day either side.
+const EVENT_WINDOW = QUARTER / 90; // radians
+
+/** Season for the Sun's ecliptic longitude of date (radians) on the UTC `date`. */
+export function seasonStatus(sunLongitude: number, date: Date, hemisphere: Hemisphere, definition: SeasonDefinition): SeasonStatus {
+  const shift = hemisphere === 'south' ? 2 : 0;
+  const longitude = normalizeAngle(sunLongitude);
+
+  const quarter = definition === 'astronomical'
+    ? Math.floor(longitude / QUARTER)
+    : Math.floor(((date.getUTCMonth() - MARCH + 12) % 12) / 3);
+
+  const nearest = Math.round(longitude / QUARTER);
+  const isEvent = Math.abs(longitude - nearest * QUARTER) < EVENT_WINDOW;
+
+  return {
+    season: SEASONS[(quarter + shift) % 4],
+    event: isEvent ? EVENTS[(nearest + shift) % 4] : null,
+  };
+}
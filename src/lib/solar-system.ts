@@ -0,0 +1,68 @@
+// Data-driven list of the bodies drawn by the visualizer.
+
+import type { Vector2 } from '@/lib/orbital-mechanics';
+import { PLANET_MEAN_ELEMENTS, type MeanElements } from '@/lib/ephemeris';
+
+export type PlanetId = keyof typeof PLANET_MEAN_ELEMENTS;
+
+export interface PlanetDefinition {
+  id: PlanetId;
+  name: string;
+  elements: MeanElements;
+  radius: number; // km, mean
+  mass: number; // solar masses
+  displayRadius: number; // px in solar-system mode
+  color: string;
+  rotationPeriod: number; // hours, sidereal; negative for retrograde spin
+  axialTilt: number; // degrees
+  hasRings?: boolean;
+}
+
+export const PLANETS: PlanetDefinition[] = [
+  { id: 'mercury', name: 'Mercury', elements: PLANET_MEAN_ELEMENTS.mercury, radius: 2439.7, mass: 1.6601e-7, displayRadius: 3, color: '#A8A29E', rotationPeriod: 1407.6, axialTilt: 0.03 },
+  { id: 'venus', name: 'Venus', elements: PLANET_MEAN_ELEMENTS.venus, radius: 6051.8, mass: 2.4478e-6, displayRadius: 4.5, color: '#E7C07A', rotationPeriod: -5832.5, axialTilt: 177.4 },
+  // Earth's mass includes the Moon, matching the Earth–Moon barycenter elements.
+  { id: 'earth', name: 'Earth', elements: PLANET_MEAN_ELEMENTS.earth, radius: 6371.0, mass: 3.0404e-6, displayRadius: 5, color: '#3B82F6', rotationPeriod: 23.9345, axialTilt: 23.44 },
+  { id: 'mars', name: 'Mars', elements: PLANET_MEAN_ELEMENTS.mars, radius: 3389.5, mass: 3.2271e-7, displayRadius: 3.5, color: '#DC6B3F', rotationPeriod: 24.6229, axialTilt: 25.19 },
+  { id: 'jupiter', name: 'Jupiter', elements: PLANET_MEAN_ELEMENTS.jupiter, radius: 69911, mass: 9.5479e-4, displayRadius: 10, color: '#D6A77A', rotationPeriod: 9.925, axialTilt: 3.13 },
+  { id: 'saturn', name: 'Saturn', elements: PLANET_MEAN_ELEMENTS.saturn, radius: 58232, mass: 2.8589e-4, displayRadius: 8.5, color: '#E8D08F', rotationPeriod: 10.656, axialTilt: 26.73, hasRings: true },
+  { id: 'uranus', name: 'Uranus', elements: PLANET_MEAN_ELEMENTS.uranus, radius: 25362, mass: 4.3662e-5, displayRadius: 6.5, color: '#7DD3FC', rotationPeriod: -17.24, axialTilt: 97.77 },
+  { id: 'neptune', name: 'Neptune', elements: PLANET_MEAN_ELEMENTS.neptune, radius: 24622, mass: 5.1514e-5, displayRadius: 6.5, color: '#3B5BDB', rotationPeriod: 16.11, axialTilt: 28.32 },
+];
+
+export function getPlanet(id: PlanetId): PlanetDefinition {
+  return PLANETS.find(planet => planet.id === id) ?? PLANETS[2];
+}
+
+/** Spin angle in degrees after `days`, relative to the stars. */
+export function rotationAngle(planet: PlanetDefinition, days: number): number {
+  const turns = (days * 24) / planet.rotationPeriod;
+  return (((turns % 1) + 1) % 1) * 360;
+}
+
+// Neptune is 77× farther out than Mercury, so solar-system mode compresses
+// distances with a square-root scale to keep every orbit on screen.
+export const SYSTEM_SCALE = 51; // px per √AU
+// Zoomed out a little further so the Kuiper belt (~30–50 AU) fits as well.
+export const OUTER_SYSTEM_SCALE = 40; // px per √AU
+
+/** Screen distance for a heliocentric distance in AU. */
+export function systemDisplayDistance(au: number, scale = SYSTEM_SCALE): number {
+  return scale * Math.sqrt(au);
+}
+
+/** Inverse of `systemDisplayDistance`: AU for a screen distance in px. */
+export function systemDistanceFromDisplay(px: number, scale = SYSTEM_SCALE): number {
+  return (px / scale) ** 2;
+}
+
+/**
+ * Screen point for a point in AU around the centre of the view: the
+ * direction is kept and only the distance goes through `mapRadius`.
+ */
+export function mapRadially({ x, y }: Vector2, mapRadius: (au: number) => number): Vector2 {
+  const r = Math.hypot(x, y);
+  if (r === 0) return { x: 0, y: 0 };
+  const scale = mapRadius(r) / r;
+  return { x: x * scale, y: y * scale };
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { julianDate } from '@/lib/ephemeris';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { formatEquationOfTime, solarCoordinates } from '@/lib/solar-time';
+
+const noon = (month: number, day: number) => solarCoordinates(julianDate(new Date(Date.UTC(2024, month - 1, day, 12))));
+
+describe('solarCoordinates', () => {
+  // The equation of time's published extremes: −14m 13s and +16m 26s.
+  it('reaches the extremes of the equation of time on Feb 11 and Nov 3', () => {
+    expect(noon(2, 11).equationOfTime).toBeCloseTo(-14.2, 1);
+    expect(noon(11, 3).equationOfTime).toBeCloseTo(16.43, 1);
+    expect(noon(7, 26).equationOfTime).toBeCloseTo(-6.53, 1);
+  });
+
+  it('crosses zero four times a year', () => {
+    for (const [month, day] of [[4, 15], [6, 13], [9, 1], [12, 25]]) {
+      expect(Math.abs(noon(month, day).equationOfTime)).toBeLessThan(0.5);
+    }
+  });
+
+  it('puts the Sun at the tilt at the June solstice', () => {
+    const solstice = solarCoordinates(julianDate(new Date(Date.UTC(2024, 5, 20, 20, 51))));
+    expect(solstice.declination * RAD_TO_DEG).toBeCloseTo(23.44, 2);
+    expect(solstice.rightAscension * RAD_TO_DEG).toBeCloseTo(90, 1);
+  });
+});
+
+describe('formatEquationOfTime', () => {
+  it('signs and pads minutes and seconds', () => {
+    expect(formatEquationOfTime(16.43)).toBe('+16m 26s');
+    expect(formatEquationOfTime(-0.2)).toBe('−0m 12s');
+  });
+});
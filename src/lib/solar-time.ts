@@ -0,0 +1,42 @@
+// Where the Sun is on the sky, and how sundial time differs from clock time.
+// Clocks keep mean solar time, set by a fictitious Sun moving uniformly
+// along the celestial equator. The real Sun runs ahead of or behind it,
+// because Earth moves fastest at perihelion and because the tilt turns even
+// motion along the ecliptic into uneven motion in right ascension. The
+// difference is the equation of time, and tracing it against declination
+// through the year draws the analemma.
+
+import { DEG_TO_RAD, TWO_PI } from '@/lib/orbital-mechanics';
+import { EARTH_MEAN_ELEMENTS, heliocentricPosition, solarLongitude, solarMeanLongitude } from '@/lib/ephemeris';
+import { meanObliquity } from '@/lib/earth-rotation';
+
+const MINUTES_PER_RADIAN = (24 * 60) / TWO_PI;
+
+export interface SolarCoordinates {
+  longitude: number; // radians, apparent ecliptic longitude of date
+  rightAscension: number; // radians
+  declination: number; // radians
+  distance: number; // AU
+  equationOfTime: number; // minutes, sundial minus clock (apparent minus mean solar time)
+}
+
+/** The Sun's apparent position at `jd`, for a tilt of `obliquity` radians. */
+export function solarCoordinates(jd: number, obliquity = meanObliquity(jd) * DEG_TO_RAD): SolarCoordinates {
+  const longitude = solarLongitude(jd);
+  const rightAscension = Math.atan2(Math.cos(obliquity) * Math.sin(longitude), Math.cos(longitude));
+  let equationOfTime = solarMeanLongitude(jd) - rightAscension;
+  equationOfTime -= TWO_PI * Math.round(equationOfTime / TWO_PI);
+  return {
+    longitude,
+    rightAscension,
+    declination: Math.asin(Math.sin(obliquity) * Math.sin(longitude)),
+    distance: heliocentricPosition(EARTH_MEAN_ELEMENTS, jd).radius,
+    equationOfTime: equationOfTime * MINUTES_PER_RADIAN,
+  };
+}
+
+/** Formats an equation of time in minutes as e.g. "+16m 25s". */
+export function formatEquationOfTime(minutes: number): string {
+  const totalSeconds = Math.round(Math.abs(minutes) * 60);
+  return `${minutes < 0 ? '−' : '+'}${Math.floor(totalSeconds / 60)}m ${(totalSeconds % 60).toString().padStart(2, '0')}s`;
+}
@@ -0,0 +1,110 @@
+// Spin–orbit resonance: tides lock some bodies' rotation to their orbit. In
+// a p:q resonance the body turns p times against the stars every q orbits,
+// so the Moon (1:1) keeps one face to Earth and Mercury (3:2) alternates
+// which hemisphere faces the Sun at each perihelion.
+
+import { DEG_TO_RAD, normalizeAngle, wrapAngle } from '@/lib/orbital-mechanics';
+import { EARTH_MEAN_ELEMENTS, PLANET_MEAN_ELEMENTS, centuriesSinceJ2000, siderealPeriod } from '@/lib/ephemeris';
+import { MOON } from '@/lib/moon';
+
+export interface SpinOrbitRatio {
+  rotations: number;
+  orbits: number;
+}
+
+export const SPIN_ORBIT_RATIOS: SpinOrbitRatio[] = [
+  { rotations: 1, orbits: 1 },
+  { rotations: 3, orbits: 2 },
+  { rotations: 2, orbits: 1 },
+  { rotations: 5, orbits: 2 },
+];
+
+export type SpinOrbitBodyId = 'moon' | 'mercury';
+
+export interface SpinOrbitBody {
+  id: SpinOrbitBodyId;
+  name: string;
+  primary: string; // the body it orbits
+  resonance: SpinOrbitRatio; // the real one
+  orbitalPeriod: number; // days, sidereal, around the primary
+  yearLength: number; // days, sidereal, around the Sun
+  // [degrees at J2000, degrees per Julian century], as in MeanElements. The
+  // mean anomaly is kept unwrapped, since a 3:2 spin depends on which orbit it is.
+  meanAnomaly: [number, number];
+  longitudeOfPeriapsis: [number, number];
+}
+
+const mercury = PLANET_MEAN_ELEMENTS.mercury;
+
+export const SPIN_ORBIT_BODIES: SpinOrbitBody[] = [
+  {
+    id: 'moon',
+    name: 'Moon',
+    primary: 'Earth',
+    resonance: { rotations: 1, orbits: 1 },
+    orbitalPeriod: MOON.siderealPeriod,
+    yearLength: siderealPeriod(EARTH_MEAN_ELEMENTS),
+    // Meeus ch. 47, the same mean elements as the Moon model (equinox of date).
+    meanAnomaly: [134.9633964, 477198.8675055],
+    longitudeOfPeriapsis: [83.3530513, 4069.0137287],
+  },
+  {
+    id: 'mercury',
+    name: 'Mercury',
+    primary: 'Sun',
+    resonance: { rotations: 3, orbits: 2 },
+    orbitalPeriod: siderealPeriod(mercury),
+    yearLength: siderealPeriod(mercury),
+    meanAnomaly: [
+      mercury.meanLongitude[0] - mercury.longitudeOfPerihelion[0],
+      mercury.meanLongitude[1] - mercury.longitudeOfPerihelion[1],
+    ],
+    longitudeOfPeriapsis: [mercury.longitudeOfPerihelion[0], mercury.longitudeOfPerihelion[1]],
+  },
+];
+
+export function getSpinOrbitBody(id: SpinOrbitBodyId): SpinOrbitBody {
+  return SPIN_ORBIT_BODIES.find(body => body.id === id) ?? SPIN_ORBIT_BODIES[0];
+}
+
+export function formatRatio({ rotations, orbits }: SpinOrbitRatio): string {
+  return `${rotations}:${orbits}`;
+}
+
+/** Sidereal rotation period in days for a body spinning in the given resonance. */
+export function resonantRotationPeriod(orbitalPeriod: number, ratio: SpinOrbitRatio): number {
+  return (orbitalPeriod * ratio.orbits) / ratio.rotations;
+}
+
+/**
+ * Time between successive noons, in days, for a body rotating every
+ * `rotationPeriod` days (negative if retrograde) while circling its light
+ * source every `orbitalPeriod` days. Infinity when the two are equal: the
+ * same face is always lit.
+ */
+export function solarDay(rotationPeriod: number, orbitalPeriod: number): number {
+  const rate = 1 / rotationPeriod - 1 / orbitalPeriod; // turns per day relative to the Sun
+  return Math.abs(rate) < 1e-12 ? Infinity : Math.abs(1 / rate);
+}
+
+/**
+ * Direction (radians, ecliptic longitude) of a body's reference meridian at
+ * `jd` when it spins in the given resonance. The spin runs at p/q times the
+ * mean motion, and the meridian faced the primary at the last periapsis
+ * before J2000, where tides lock it.
+ */
+export function resonantSpinAngle(body: SpinOrbitBody, ratio: SpinOrbitRatio, jd: number): number {
+  const T = centuriesSinceJ2000(jd);
+  const at = ([value, rate]: [number, number]) => (value + rate * T) * DEG_TO_RAD;
+  return normalizeAngle(at(body.longitudeOfPeriapsis) + Math.PI + (ratio.rotations / ratio.orbits) * at(body.meanAnomaly));
+}
+
+/**
+ * Body-fixed longitude (radians, −π to π, east of the reference meridian)
+ * of the point facing the primary, for a body seen from the primary at
+ * `longitude`. In the 1:1 case it swings a few degrees either side of zero:
+ * the libration that lets us see 59% of the Moon.
+ */
+export function subPrimaryLongitude(spinAngle: number, longitude: number): number {
+  return wrapAngle(longitude + Math.PI - spinAngle);
+}
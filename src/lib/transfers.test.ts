@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { PLANET_MEAN_ELEMENTS, julianDate } from '@/lib/ephemeris';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { currentPhaseAngle, hohmannTransfer, nextLaunchWindow, synodicPeriod, transferOrbitPoint } from '@/lib/transfers';
+
+const { earth, mars, venus } = PLANET_MEAN_ELEMENTS;
+
+describe('hohmannTransfer', () => {
+  // Textbook values for circular orbits at 1, 1.524 and 0.723 AU.
+  it('matches the published Earth–Mars transfer', () => {
+    const transfer = hohmannTransfer(1, 1.524);
+    expect(transfer.departureDeltaV).toBeCloseTo(2.94, 1);
+    expect(transfer.arrivalDeltaV).toBeCloseTo(2.65, 2);
+    expect(transfer.transferTime).toBeCloseTo(259, 0);
+    expect(transfer.phaseAngle * RAD_TO_DEG).toBeCloseTo(44.4, 1);
+  });
+
+  it('matches the published Earth–Venus transfer', () => {
+    const transfer = hohmannTransfer(1, 0.723);
+    expect(transfer.departureDeltaV).toBeCloseTo(2.5, 2);
+    expect(transfer.arrivalDeltaV).toBeCloseTo(2.71, 2);
+    expect(transfer.transferTime).toBeCloseTo(146, 0);
+    expect(transfer.phaseAngle * RAD_TO_DEG).toBeCloseTo(-54.1, 1);
+  });
+});
+
+describe('transferOrbitPoint', () => {
+  it('reaches the destination orbit opposite the departure point', () => {
+    for (const r2 of [1.524, 0.723]) {
+      const { x, y } = transferOrbitPoint(hohmannTransfer(1, r2), 0, Math.PI);
+      expect(x).toBeCloseTo(-r2, 12);
+      expect(y).toBeCloseTo(0, 12);
+    }
+  });
+});
+
+describe('launch windows', () => {
+  const transfer = hohmannTransfer(1, 1.524);
+
+  it('repeats every synodic period', () => {
+    expect(synodicPeriod(earth, mars)).toBeCloseTo(780, 0);
+    expect(synodicPeriod(earth, venus)).toBeCloseTo(584, 0);
+  });
+
+  it('finds the late-2024 Mars window with the right phase angle', () => {
+    const start = julianDate(new Date(Date.UTC(2024, 0, 1)));
+    const window = nextLaunchWindow(earth, mars, transfer, start);
+    expect(window).toBeGreaterThan(julianDate(new Date(Date.UTC(2024, 9, 1))));
+    expect(window).toBeLessThan(julianDate(new Date(Date.UTC(2024, 11, 1))));
+    expect(currentPhaseAngle(earth, mars, window)).toBeCloseTo(transfer.phaseAngle, 6);
+
+    const following = nextLaunchWindow(earth, mars, transfer, window + 2);
+    expect(following - window).toBeGreaterThan(740);
+    expect(following - window).toBeLessThan(820);
+  });
+
+  it('still offers a window that opened within the last day', () => {
+    const window = nextLaunchWindow(earth, mars, transfer, julianDate(new Date(Date.UTC(2024, 0, 1))));
+    expect(nextLaunchWindow(earth, mars, transfer, window + 0.5)).toBeCloseTo(window, 3);
+  });
+});
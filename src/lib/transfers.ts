@@ -0,0 +1,96 @@
+// Hohmann transfers between planets, treating both orbits as circles in the
+// ecliptic at their mean distances. Speed changes are heliocentric, i.e. the
+// hyperbolic excess speed on leaving the origin's sphere of influence and on
+// reaching the destination's; escaping from or braking into a planetary
+// orbit costs extra on top. Units: AU and days, speeds reported in km/s.
+
+import { TWO_PI, wrapAngle, type Vector2 } from '@/lib/orbital-mechanics';
+import { KM_S_PER_AU_DAY, heliocentricPosition, siderealPeriod, type MeanElements } from '@/lib/ephemeris';
+import { G } from '@/lib/n-body';
+
+// A window that opened less than this long ago still counts as the next one,
+// so jumping to it doesn't immediately move the window on by a synodic period.
+const WINDOW_GRACE = 1; // days
+
+export interface HohmannTransfer {
+  departureRadius: number; // AU
+  arrivalRadius: number; // AU
+  semiMajorAxis: number; // AU
+  eccentricity: number;
+  transferTime: number; // days, half the transfer orbit's period
+  departureDeltaV: number; // km/s
+  arrivalDeltaV: number; // km/s
+  phaseAngle: number; // radians the destination must lead the origin by at launch, in (−π, π]
+}
+
+/** Hohmann transfer between circular orbits of radius `r1` and `r2` AU around the Sun. */
+export function hohmannTransfer(r1: number, r2: number): HohmannTransfer {
+  const semiMajorAxis = (r1 + r2) / 2;
+  const circularSpeed = (r: number) => Math.sqrt(G / r);
+  // Vis-viva at each end of the transfer ellipse.
+  const transferSpeed = (r: number) => Math.sqrt(G * (2 / r - 1 / semiMajorAxis));
+  const transferTime = Math.PI * Math.sqrt((semiMajorAxis * semiMajorAxis * semiMajorAxis) / G);
+  // The destination moves on while the craft flies half an orbit, so it must
+  // start that far short of the point opposite the launch.
+  const destinationMotion = Math.sqrt(G / (r2 * r2 * r2)) * transferTime;
+
+  return {
+    departureRadius: r1,
+    arrivalRadius: r2,
+    semiMajorAxis,
+    eccentricity: Math.abs(r2 - r1) / (r1 + r2),
+    transferTime,
+    departureDeltaV: Math.abs(transferSpeed(r1) - circularSpeed(r1)) * KM_S_PER_AU_DAY,
+    arrivalDeltaV: Math.abs(circularSpeed(r2) - transferSpeed(r2)) * KM_S_PER_AU_DAY,
+    phaseAngle: wrapAngle(Math.PI - destinationMotion),
+  };
+}
+
+/**
+ * Point on the transfer ellipse, in AU, `angle` radians past the departure
+ * point (0 to π). Outbound transfers leave from perihelion, inbound ones
+ * from aphelion.
+ */
+export function transferOrbitPoint(transfer: HohmannTransfer, departureLongitude: number, angle: number): Vector2 {
+  const { semiMajorAxis: a, eccentricity: e, departureRadius, arrivalRadius } = transfer;
+  const direction = arrivalRadius > departureRadius ? 1 : -1;
+  const r = (a * (1 - e * e)) / (1 + direction * e * Math.cos(angle));
+  return { x: r * Math.cos(departureLongitude + angle), y: r * Math.sin(departureLongitude + angle) };
+}
+
+/** Time between successive launch windows: the planets' synodic period in days. */
+export function synodicPeriod(origin: MeanElements, destination: MeanElements): number {
+  return 1 / Math.abs(1 / siderealPeriod(origin) - 1 / siderealPeriod(destination));
+}
+
+/** How far the destination leads the origin in heliocentric longitude, in (−π, π]. */
+export function currentPhaseAngle(origin: MeanElements, destination: MeanElements, jd: number): number {
+  return wrapAngle(heliocentricPosition(destination, jd).longitude - heliocentricPosition(origin, jd).longitude);
+}
+
+/**
+ * First Julian date from `jd` on when the phase angle matches the
+ * transfer's, refined with Newton steps using the mean synodic rate as the
+ * derivative (the real rate varies a little with the orbits' eccentricity).
+ */
+export function nextLaunchWindow(origin: MeanElements, destination: MeanElements, transfer: HohmannTransfer, jd: number): number {
+  const rate = TWO_PI / siderealPeriod(destination) - TWO_PI / siderealPeriod(origin);
+  const offset = (t: number) => wrapAngle(currentPhaseAngle(origin, destination, t) - transfer.phaseAngle);
+  const refine = (guess: number) => {
+    let t = guess;
+    for (let i = 0; i < 12; i++) {
+      const step = offset(t) / rate;
+      t -= step;
+      if (Math.abs(step) < 1e-4) break;
+    }
+    return t;
+  };
+
+  // Time for the offset to run down to zero at the mean rate, counting from
+  // the start of the grace period.
+  const from = jd - WINDOW_GRACE;
+  const remaining = ((((rate > 0 ? -offset(from) : offset(from)) % TWO_PI) + TWO_PI) % TWO_PI) / Math.abs(rate);
+  let window = refine(from + remaining);
+  if (window < from) window = refine(window + synodicPeriod(origin, destination));
+  return window;
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { RAD_TO_DEG } from '@/lib/orbital-mechanics';
+import { earthMoonBarycentreVsop87, earthVsop87 } from '@/lib/vsop87';
+
+describe('earthVsop87', () => {
+  // Meeus, "Astronomical Algorithms", example 25.b: 1992 October 13.0 TD.
+  it('matches the worked example', () => {
+    const earth = earthVsop87(2448908.5);
+    expect(earth.longitude * RAD_TO_DEG).toBeCloseTo(19.907372, 6);
+    expect(earth.radius).toBeCloseTo(0.99760775, 8);
+  });
+});
+
+describe('earthMoonBarycentreVsop87', () => {
+  it('differs from Earth by at most its monthly swing', () => {
+    for (let jde = 2460310.5; jde < 2460340.5; jde += 1) {
+      const earth = earthVsop87(jde);
+      const barycentre = earthMoonBarycentreVsop87(jde);
+      // Earth is ~4700 km, or 3.1×10⁻⁵ AU, from the barycentre.
+      expect(Math.abs(earth.radius - barycentre.radius)).toBeLessThan(3.5e-5);
+      expect(Math.abs(earth.longitude - barycentre.longitude)).toBeLessThan(3.5e-5);
+    }
+  });
+});